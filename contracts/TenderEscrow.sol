@@ -0,0 +1,312 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @dev Implemented by Tendering and FHETendering
+interface ITenderAwards {
+    /// @notice Parties and amount owed of an awarded project; reverts for any other status
+    function getAward(uint256 projectId)
+        external
+        view
+        returns (address creator, address winner, address paymentToken, uint256 amount, bool accepted, uint256 awardedAt);
+
+    function hasActiveBid(uint256 projectId, address bidder) external view returns (bool);
+}
+
+/// @title Post-award payment escrow for one tendering contract
+/// @notice The contract execution phase of awarded projects. It lives beside the tendering
+///         contract rather than inside it so FHETendering stays under the EVM code size limit.
+///         Once the winner has accepted, the creator deposits the amount owed in the project's
+///         payment token (address(0) = native ETH), split into milestones. The winner submits
+///         each milestone; it is paid when the creator approves it, or by anyone once it has
+///         gone unanswered for MILESTONE_APPROVAL_TIMEOUT. Either party can flag a milestone as
+///         disputed; the creator's flag stops the timeout release.
+///         Disputes go to the arbiter fixed at deployment. A losing bidder may open one within
+///         DISPUTE_WINDOW of the award, e.g. over a creator who ended the tender early; the
+///         creator and the winner may also open one later while the escrow still holds funds.
+///         Each claimant has their own dispute, and only the creator's and the winner's pause
+///         timeout releases, so a bidder cannot hold up payment with a bond.
+///         The claimant locks `disputeBond`, and the ruling either returns it or pays it to the
+///         other side, and may settle what is left in escrow between winner and creator.
+///         That is all a ruling moves: it cannot reverse the award or reach bid bonds, which the
+///         tendering contract holds and returns to the winner on acceptance. An upheld bidder
+///         dispute over a rigged tender only gets the bidder their dispute bond back.
+contract TenderEscrow {
+    uint256 public constant MAX_MILESTONES = 10;
+    uint256 public constant MILESTONE_APPROVAL_TIMEOUT = 14 days;
+    uint256 public constant DISPUTE_WINDOW = 14 days;
+
+    // ERC-20 selectors, called without an interface so non-standard tokens still work
+    bytes4 private constant TRANSFER = 0xa9059cbb; // transfer(address,uint256)
+    bytes4 private constant TRANSFER_FROM = 0x23b872dd; // transferFrom(address,address,uint256)
+
+    enum MilestoneStatus { Pending, Submitted, Released, Settled } // Settled = closed by a ruling
+
+    struct Escrow {
+        address creator;
+        address winner;
+        address token;       // address(0) = native ETH
+        uint256 amount;      // deposited, in token units (0 = not funded)
+        uint256 released;    // part of amount already paid to the winner
+        uint256 refunded;    // part of amount returned to the creator by a ruling
+    }
+
+    struct Milestone {
+        string description;
+        uint256 amount;      // token units
+        MilestoneStatus status;
+        uint256 submittedAt; // when the winner reported it delivered
+        bool creatorDisputed; // blocks the timeout release
+        bool winnerDisputed;
+    }
+
+    struct Dispute {
+        address claimant;
+        address respondent;  // gets the bond if the dispute is dismissed
+        string evidenceURI;
+        uint256 bond;        // wei
+        uint256 openedAt;
+        bool open;
+        bool party;          // opened by the creator or the winner: pauses timeout releases
+    }
+
+    ITenderAwards public immutable tendering;
+    address public immutable arbiter;
+    uint256 public immutable disputeBond; // wei locked by whoever opens a dispute
+    // projectId -> escrow, copied from the award when funded
+    mapping(uint256 => Escrow) public escrows;
+    // projectId -> payment schedule
+    mapping(uint256 => Milestone[]) private milestones;
+    // projectId -> claimant -> their latest dispute; earlier ones are only in the event log
+    mapping(uint256 => mapping(address => Dispute)) public disputes;
+    // projectId -> everyone who has opened a dispute, in order of their first one
+    mapping(uint256 => address[]) private claimants;
+    // projectId -> open disputes of the creator and the winner
+    mapping(uint256 => uint256) public openPartyDisputes;
+
+    event EscrowFunded(uint256 indexed projectId, address indexed token, uint256 amount, uint256 milestones);
+    event MilestoneSubmitted(uint256 indexed projectId, uint256 indexed milestone);
+    event MilestoneReleased(uint256 indexed projectId, uint256 indexed milestone, uint256 amount, bool byTimeout);
+    event MilestoneDisputeFlagged(uint256 indexed projectId, uint256 indexed milestone, address indexed party, bool flagged);
+    event DisputeOpened(uint256 indexed projectId, address indexed claimant, string evidenceURI);
+    event DisputeResolved(uint256 indexed projectId, address indexed claimant, bool upheld, uint256 toWinner, uint256 toCreator);
+
+    constructor(ITenderAwards _tendering, address _arbiter, uint256 _disputeBond) {
+        require(_arbiter != address(0), "No arbiter");
+        tendering = _tendering;
+        arbiter = _arbiter;
+        disputeBond = _disputeBond;
+    }
+
+    /// @notice Creator deposits the amount owed once the winner has accepted and splits it
+    ///         into milestones; ERC-20 projects need an allowance, ETH projects send msg.value
+    /// @param descriptions What the winner must deliver for each milestone
+    /// @param amounts Payment per milestone in token units, summing to the award amount
+    function fundEscrow(
+        uint256 projectId,
+        string[] calldata descriptions,
+        uint256[] calldata amounts
+    ) external payable {
+        Escrow storage e = escrows[projectId];
+        require(e.amount == 0, "Already funded");
+        (address creator, address winner, address token, uint256 amount, bool accepted, ) = tendering.getAward(projectId);
+        require(msg.sender == creator, "Only creator");
+        require(accepted, "Award not accepted");
+        require(amounts.length > 0 && amounts.length <= MAX_MILESTONES, "Bad milestone count");
+        require(descriptions.length == amounts.length, "Length mismatch");
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            require(amounts[i] > 0, "Empty milestone");
+            total += amounts[i];
+            milestones[projectId].push(Milestone({
+                description: descriptions[i],
+                amount: amounts[i],
+                status: MilestoneStatus.Pending,
+                submittedAt: 0,
+                creatorDisputed: false,
+                winnerDisputed: false
+            }));
+        }
+        require(total == amount, "Milestones must sum to amount");
+
+        e.creator = creator;
+        e.winner = winner;
+        e.token = token;
+        e.amount = amount;
+        emit EscrowFunded(projectId, token, amount, amounts.length);
+        if (token == address(0)) {
+            require(msg.value == amount, "Wrong amount");
+        } else {
+            require(msg.value == 0, "ETH not accepted");
+            _callToken(token, abi.encodeWithSelector(TRANSFER_FROM, msg.sender, address(this), amount));
+        }
+    }
+
+    /// @notice Winner reports a milestone as delivered, starting the approval timeout
+    function submitMilestone(uint256 projectId, uint256 index) external {
+        require(msg.sender == escrows[projectId].winner, "Only winner");
+        Milestone storage m = _milestone(projectId, index);
+        require(m.status == MilestoneStatus.Pending, "Not pending");
+
+        m.status = MilestoneStatus.Submitted;
+        m.submittedAt = block.timestamp;
+        emit MilestoneSubmitted(projectId, index);
+    }
+
+    /// @notice Creator accepts a milestone, submitted or not, and pays it to the winner
+    function approveMilestone(uint256 projectId, uint256 index) external {
+        require(msg.sender == escrows[projectId].creator, "Only creator");
+        Milestone storage m = _milestone(projectId, index);
+        require(m.status < MilestoneStatus.Released, "Already released");
+        _releaseMilestone(projectId, index, false);
+    }
+
+    /// @notice Pay a submitted milestone the creator neither approved nor disputed in time
+    function releaseMilestone(uint256 projectId, uint256 index) external {
+        Milestone storage m = _milestone(projectId, index);
+        require(m.status == MilestoneStatus.Submitted, "Not submitted");
+        require(!m.creatorDisputed, "Disputed by creator");
+        require(openPartyDisputes[projectId] == 0, "Dispute open");
+        require(block.timestamp > m.submittedAt + MILESTONE_APPROVAL_TIMEOUT, "Approval window open");
+        _releaseMilestone(projectId, index, true);
+    }
+
+    /// @notice Creator or winner raises (or withdraws) their dispute flag on an unpaid milestone
+    function flagMilestoneDispute(uint256 projectId, uint256 index, bool flagged) external {
+        Escrow storage e = escrows[projectId];
+        Milestone storage m = _milestone(projectId, index);
+        require(m.status < MilestoneStatus.Released, "Already released");
+        if (msg.sender == e.creator) {
+            m.creatorDisputed = flagged;
+        } else if (msg.sender == e.winner) {
+            m.winnerDisputed = flagged;
+        } else {
+            revert("Only creator or winner");
+        }
+        emit MilestoneDisputeFlagged(projectId, index, msg.sender, flagged);
+    }
+
+    // ------------------------------------------------------------------------
+    // Disputes
+    // ------------------------------------------------------------------------
+
+    /// @notice Raise a dispute with the arbiter, locking `disputeBond` as msg.value
+    /// @param evidenceURI Where the arbiter finds the claimant's case (e.g. an IPFS document)
+    function openDispute(uint256 projectId, string calldata evidenceURI) external payable {
+        Dispute storage d = disputes[projectId][msg.sender];
+        require(!d.open, "Dispute open");
+        require(bytes(evidenceURI).length > 0, "No evidence");
+        require(msg.value == disputeBond, "Wrong bond");
+        (address creator, address winner, , , , uint256 awardedAt) = tendering.getAward(projectId);
+        Escrow storage e = escrows[projectId];
+        bool inWindow = block.timestamp <= awardedAt + DISPUTE_WINDOW;
+
+        address respondent;
+        bool party = msg.sender == creator || msg.sender == winner;
+        if (party) {
+            require(inWindow || e.released + e.refunded < e.amount, "Dispute window over");
+            respondent = msg.sender == creator ? winner : creator;
+            openPartyDisputes[projectId]++;
+        } else {
+            require(tendering.hasActiveBid(projectId, msg.sender), "Only parties or bidders");
+            require(inWindow, "Dispute window over");
+            respondent = creator;
+        }
+
+        if (d.claimant == address(0)) claimants[projectId].push(msg.sender);
+        disputes[projectId][msg.sender] = Dispute({
+            claimant: msg.sender,
+            respondent: respondent,
+            evidenceURI: evidenceURI,
+            bond: msg.value,
+            openedAt: block.timestamp,
+            open: true,
+            party: party
+        });
+        emit DisputeOpened(projectId, msg.sender, evidenceURI);
+    }
+
+    /// @notice Arbiter's ruling on `claimant`'s open dispute. An upheld dispute returns the
+    ///         claimant's bond, a dismissed one pays it to the respondent. With `settleEscrow` the
+    ///         unpaid remainder of the escrow is split, `toWinner` to the winner and the rest back
+    ///         to the creator, and the open milestones are closed as Settled. Bid bonds and the
+    ///         award itself are out of the arbiter's reach.
+    function resolveDispute(
+        uint256 projectId,
+        address claimant,
+        bool upheld,
+        bool settleEscrow,
+        uint256 toWinner
+    ) external {
+        require(msg.sender == arbiter, "Only arbiter");
+        Dispute storage d = disputes[projectId][claimant];
+        require(d.open, "No open dispute");
+        d.open = false;
+        if (d.party) openPartyDisputes[projectId]--;
+
+        Escrow storage e = escrows[projectId];
+        uint256 toCreator = 0;
+        if (settleEscrow) {
+            uint256 remaining = e.amount - e.released - e.refunded;
+            require(remaining > 0, "Nothing in escrow");
+            require(toWinner <= remaining, "Exceeds escrow");
+            toCreator = remaining - toWinner;
+            e.released += toWinner;
+            e.refunded += toCreator;
+            Milestone[] storage list = milestones[projectId];
+            for (uint256 i = 0; i < list.length; i++) {
+                if (list[i].status < MilestoneStatus.Released) list[i].status = MilestoneStatus.Settled;
+            }
+        } else {
+            require(toWinner == 0, "Escrow not settled");
+        }
+
+        emit DisputeResolved(projectId, d.claimant, upheld, toWinner, toCreator);
+        if (d.bond > 0) _pay(address(0), upheld ? d.claimant : d.respondent, d.bond);
+        if (toWinner > 0) _pay(e.token, e.winner, toWinner);
+        if (toCreator > 0) _pay(e.token, e.creator, toCreator);
+    }
+
+    /// @notice Latest dispute of each claimant, in order of their first one
+    function getDisputes(uint256 projectId) external view returns (Dispute[] memory list) {
+        address[] storage addrs = claimants[projectId];
+        list = new Dispute[](addrs.length);
+        for (uint256 i = 0; i < addrs.length; i++) {
+            list[i] = disputes[projectId][addrs[i]];
+        }
+    }
+
+    /// @notice Payment schedule of a funded escrow (empty before fundEscrow)
+    function getMilestones(uint256 projectId) external view returns (Milestone[] memory) {
+        return milestones[projectId];
+    }
+
+    function _milestone(uint256 projectId, uint256 index) private view returns (Milestone storage) {
+        require(index < milestones[projectId].length, "No such milestone");
+        return milestones[projectId][index];
+    }
+
+    function _releaseMilestone(uint256 projectId, uint256 index, bool byTimeout) private {
+        Escrow storage e = escrows[projectId];
+        Milestone storage m = milestones[projectId][index];
+        m.status = MilestoneStatus.Released;
+        e.released += m.amount;
+        emit MilestoneReleased(projectId, index, m.amount, byTimeout);
+        _pay(e.token, e.winner, m.amount);
+    }
+
+    function _pay(address token, address to, uint256 amount) private {
+        if (token == address(0)) {
+            (bool ok, ) = payable(to).call{value: amount}("");
+            require(ok, "Transfer failed");
+        } else {
+            _callToken(token, abi.encodeWithSelector(TRANSFER, to, amount));
+        }
+    }
+
+    /// @dev Accepts tokens that return true or nothing, like OpenZeppelin's SafeERC20
+    function _callToken(address token, bytes memory data) private {
+        (bool ok, bytes memory ret) = token.call(data);
+        require(ok && (ret.length == 0 ? token.code.length > 0 : abi.decode(ret, (bool))), "Token transfer failed");
+    }
+}
@@ -1,47 +1,132 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-/// @title Tender / Bidding Contract (amount stored in ETH)
-/// @notice Users create bidding projects, accept bids (payable), and winner is revealed on termination.
+/// @title Tender / Bidding Contract (fixed-point amounts with per-project decimals)
+/// @notice Users create bidding projects and accept sealed bids (payable): before the deadline a
+///         bid is only a commitment hash, revealed during REVEAL_WINDOW after it, so neither the
+///         creator nor rivals see amounts while bidding is open. The lowest revealed bid wins.
+///         A project may carry a reserve price; if no bid is at or below it nobody is awarded.
+///         Restricted projects only take bids from prequalified addresses, listed by the
+///         creator or proven against a Merkle root.
+///         Lifecycle: Draft -> Open -> Closed (deadline, bids revealed) -> Awarded | NoAward once
+///         the reveal window ends, or Cancelled by the creator before the deadline, the only
+///         way to end a project early. Decrypting only applies to FHETendering.
+///         Each bid locks the project's bond: losers reclaim it after settlement if they
+///         revealed, the winner gets it back by accepting the award in time, an unaccepted
+///         award's bond is forfeited to the creator and unrevealed bonds are burned, so the
+///         creator gains nothing from bids they never meant to reveal.
+///         Projects settle in native ETH or an ERC-20 token, paid through TenderEscrow
+///         once the winner accepts.
 contract Tendering {
+    uint256 public constant AWARD_ACCEPT_WINDOW = 7 days;
+    uint256 public constant REVEAL_WINDOW = 2 days;
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    uint8 public constant MAX_DECIMALS = 18;
+
+    bytes4 private constant DECIMALS = 0x313ce567; // ERC-20 decimals()
+    address private constant BURN_ADDRESS = 0x000000000000000000000000000000000000dEaD;
+
+    /// @dev Same order as FHETendering.Status so clients can share one mapping
+    enum Status { Draft, Open, Closed, Decrypting, Awarded, Cancelled, NoAward }
+
     struct Project {
         address creator;
         string title;
         string description;
         uint256 deadline;
-        bool terminated;
+        Status status;       // stored as Open after the deadline, see getStatus
+        uint8 decimals;      // amounts are integers in units of 10^-decimals (18 = wei)
         address winner;
-        bool winnerDeclared;
-        uint256 lowestBid;   // in ETH
-        uint256 highestBid;  // in ETH
-        uint256 sumBids;     // sum of all bids (ETH)
-        uint256 numBids;
+        uint256 lowestBid;   // extremes and sum cover revealed bids only
+        uint256 highestBid;
+        uint256 sumBids;
+        uint256 numBids;     // active sealed bids, at most one per bidder
+        uint256 numRevealed; // active bids revealed after the deadline
         uint256 lowestValidBidIndex;
+        uint256 bondAmount;  // wei locked per bid
+        uint256 awardedAt;
+        bool awardAccepted;
+        uint256 reservePrice; // maximum acceptable bid, 0 = none
+        bool restricted;     // only prequalified bidders may bid
+        address paymentToken; // settlement currency, address(0) = native ETH
+        uint8 tokenDecimals; // decimals of paymentToken (18 for ETH), at least `decimals`
+    }
+
+    /// @dev One row of getProjects / getProjectsByCreator
+    struct ProjectSummary {
+        uint256 id;
+        address creator;
+        string title;
+        uint256 deadline;
+        Status status;       // as reported by getStatus
+        uint8 decimals;
+        address paymentToken;
+        uint256 numBids;
+        uint256 bondAmount;
+        address winner;      // zero unless Awarded
+        bool restricted;
     }
 
     struct Bid {
         address bidder;
-        uint256 amount; // in ETH
+        bytes32 commitment;  // bidCommitment(projectId, bidder, amount, salt)
+        uint256 amount;      // 0 until revealed
         bool exists;
+        bool revealed;
     }
 
     mapping(uint256 => Project) public projects;
     mapping(uint256 => Bid[]) public projectBids;
+    // projectId -> bidder -> prequalified for a restricted project
+    mapping(uint256 => mapping(address => bool)) public allowlist;
+    // projectId -> Merkle root of further prequalified bidders (0 = none)
+    mapping(uint256 => bytes32) public allowlistRoots;
+    // projectId -> bidder -> bond held (wei)
+    mapping(uint256 => mapping(address => uint256)) public bonds;
+    // projectId -> bidder -> index of their active bid + 1 (0 = none)
+    mapping(uint256 => mapping(address => uint256)) private activeBidPlusOne;
+    // creator -> ids of their projects, oldest first
+    mapping(address => uint256[]) private creatorProjects;
 
     uint256 public nextProjectId;
 
     event ProjectCreated(uint256 indexed projectId, address indexed creator, uint256 deadline);
-    event BidPlaced(uint256 indexed projectId, address indexed bidder, uint256 amountETH);
+    event StatusChanged(uint256 indexed projectId, Status status);
+    event AllowlistUpdated(uint256 indexed projectId, address indexed bidder, bool allowed);
+    event AllowlistRootSet(uint256 indexed projectId, bytes32 root);
+    event BidPlaced(uint256 indexed projectId, address indexed bidder);
+    event BidUpdated(uint256 indexed projectId, address indexed bidder);
+    event BidWithdrawn(uint256 indexed projectId, address indexed bidder);
+    event BidRevealed(uint256 indexed projectId, address indexed bidder, uint256 amount);
     event ProjectTerminated(uint256 indexed projectId, address indexed terminator);
-    event WinnerDeclared(uint256 indexed projectId, address indexed winner, uint256 lowestBidETH);
+    event WinnerDeclared(uint256 indexed projectId, address indexed winner, uint256 lowestBid);
+    event NoAward(uint256 indexed projectId, uint256 lowestBid, uint256 reservePrice);
+    event AwardAccepted(uint256 indexed projectId, address indexed winner);
+    event BondRefunded(uint256 indexed projectId, address indexed bidder, uint256 amount);
+    event BondForfeited(uint256 indexed projectId, address indexed bidder, uint256 amount);
 
     /// @notice Create a new project
+    /// @param _bondAmount Wei each bidder must lock with their bid (0 for none)
+    /// @param _decimals Fixed-point decimals of bid amounts, at most the payment token's decimals
+    /// @param _paymentToken ERC-20 the winner is paid in, or address(0) for native ETH
+    /// @param _reservePrice Maximum acceptable bid in the project's units (0 for none)
+    /// @param _restricted If true, only addresses on the project's allowlist may bid
+    /// @param _draft If true, bidding stays closed until the creator calls openProject
     function createProject(
         string calldata _title,
         string calldata _description,
-        uint256 _deadline
+        uint256 _deadline,
+        uint8 _decimals,
+        address _paymentToken,
+        uint256 _bondAmount,
+        uint256 _reservePrice,
+        bool _restricted,
+        bool _draft
     ) external returns (uint256 projectId) {
         require(_deadline > block.timestamp, "Deadline must be in the future");
+        require(_decimals <= MAX_DECIMALS, "Too many decimals");
+        uint8 tokenDecimals = _paymentToken == address(0) ? 18 : _tokenDecimals(_paymentToken);
+        require(_decimals <= tokenDecimals, "Too many decimals");
 
         projectId = nextProjectId;
         Project storage p = projects[projectId];
@@ -49,88 +134,434 @@ contract Tendering {
         p.title = _title;
         p.description = _description;
         p.deadline = _deadline;
+        p.decimals = _decimals;
         p.lowestBid = type(uint256).max;
         p.highestBid = 0;
         p.sumBids = 0;
         p.numBids = 0;
+        p.numRevealed = 0;
         p.lowestValidBidIndex = 0;
+        p.bondAmount = _bondAmount;
+        p.reservePrice = _reservePrice;
+        p.restricted = _restricted;
+        p.paymentToken = _paymentToken;
+        p.tokenDecimals = tokenDecimals;
 
         nextProjectId++;
+        creatorProjects[msg.sender].push(projectId);
         emit ProjectCreated(projectId, msg.sender, _deadline);
+        _setStatus(projectId, _draft ? Status.Draft : Status.Open);
     }
 
-    /// @notice Place a bid (value in ETH)
-    function placeBid(uint256 projectId, uint256 amountETH) external {
+    /// @notice Open a draft project for bidding once its allowlist is in place
+    function openProject(uint256 projectId) external {
         Project storage p = projects[projectId];
-        require(!p.terminated, "Project terminated");
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Draft, "Not a draft");
         require(block.timestamp < p.deadline, "Deadline passed");
-        require(amountETH > 0, "Bid must >0");
+        _setStatus(projectId, Status.Open);
+    }
+
+    /// @notice Call off a project before its deadline; nobody is awarded and bonds are returned on request
+    function cancelProject(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Draft || p.status == Status.Open, "Not cancellable");
+        require(block.timestamp < p.deadline, "Deadline passed");
+        _setStatus(projectId, Status.Cancelled);
+    }
+
+    /// @notice Current lifecycle status; an open project reads as Closed once its deadline passes
+    function getStatus(uint256 projectId) public view returns (Status) {
+        Project storage p = projects[projectId];
+        if (p.status == Status.Open && block.timestamp >= p.deadline) return Status.Closed;
+        return p.status;
+    }
+
+    /// @notice Commitment a sealed bid is placed with; `salt` should be random and kept
+    ///         until the bid is revealed
+    function bidCommitment(uint256 projectId, address bidder, uint256 amount, bytes32 salt)
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(projectId, bidder, amount, salt));
+    }
+
+    /// @notice Place a sealed bid, sending the project's bond as msg.value
+    /// @param commitment bidCommitment of the caller's amount in the project's units
+    function placeBid(uint256 projectId, bytes32 commitment) external payable {
+        Project storage p = projects[projectId];
+        _requireOpen(p);
+        require(commitment != bytes32(0), "Empty commitment");
+        require(isQualified(projectId, msg.sender), "Not prequalified");
+        require(msg.value == p.bondAmount, "Wrong bond");
+        require(activeBidPlusOne[projectId][msg.sender] == 0, "Already bid");
+
+        bonds[projectId][msg.sender] += msg.value;
 
         projectBids[projectId].push(Bid({
             bidder: msg.sender,
-            amount: amountETH,
-            exists: true
+            commitment: commitment,
+            amount: 0,
+            exists: true,
+            revealed: false
         }));
-
+        activeBidPlusOne[projectId][msg.sender] = projectBids[projectId].length;
         p.numBids++;
-        p.sumBids += amountETH;
-        if (amountETH < p.lowestBid) {
-            p.lowestBid = amountETH;
-            p.lowestValidBidIndex = projectBids[projectId].length - 1;
+
+        emit BidPlaced(projectId, msg.sender);
+    }
+
+    /// @notice Replace the caller's sealed bid before the deadline
+    function updateBid(uint256 projectId, bytes32 commitment) external {
+        Project storage p = projects[projectId];
+        _requireOpen(p);
+        require(commitment != bytes32(0), "Empty commitment");
+        uint256 stored = activeBidPlusOne[projectId][msg.sender];
+        require(stored != 0, "No active bid");
+
+        projectBids[projectId][stored - 1].commitment = commitment;
+        emit BidUpdated(projectId, msg.sender);
+    }
+
+    /// @notice Retract the caller's active bid before the deadline and take back the bond
+    function withdrawBid(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        _requireOpen(p);
+        uint256 stored = activeBidPlusOne[projectId][msg.sender];
+        require(stored != 0, "No active bid");
+
+        projectBids[projectId][stored - 1].exists = false;
+        delete activeBidPlusOne[projectId][msg.sender];
+        p.numBids--;
+
+        emit BidWithdrawn(projectId, msg.sender);
+        if (bonds[projectId][msg.sender] > 0) {
+            _refundBond(projectId, msg.sender);
         }
-        if (amountETH > p.highestBid) {
-            p.highestBid = amountETH;
+    }
+
+    /// @notice Open the caller's sealed bid during the reveal window after the deadline;
+    ///         ties go to the earliest bid
+    function revealBid(uint256 projectId, uint256 amount, bytes32 salt) external {
+        Project storage p = projects[projectId];
+        require(p.status == Status.Open, "Not open");
+        require(block.timestamp >= p.deadline, "Bidding open");
+        require(block.timestamp < p.deadline + REVEAL_WINDOW, "Reveal window over");
+        uint256 stored = activeBidPlusOne[projectId][msg.sender];
+        require(stored != 0, "No active bid");
+        Bid storage b = projectBids[projectId][stored - 1];
+        require(!b.revealed, "Already revealed");
+        require(amount > 0, "Bid must >0");
+        require(bidCommitment(projectId, msg.sender, amount, salt) == b.commitment, "Commitment mismatch");
+
+        b.amount = amount;
+        b.revealed = true;
+        p.numRevealed++;
+        p.sumBids += amount;
+        uint256 index = stored - 1;
+        if (amount < p.lowestBid || (amount == p.lowestBid && index < p.lowestValidBidIndex)) {
+            p.lowestBid = amount;
+            p.lowestValidBidIndex = index;
         }
+        if (amount > p.highestBid) {
+            p.highestBid = amount;
+        }
+
+        emit BidRevealed(projectId, msg.sender, amount);
+    }
+
+    /// @notice Whether `bidder` currently has a bid on the project
+    function hasActiveBid(uint256 projectId, address bidder) external view returns (bool) {
+        return activeBidPlusOne[projectId][bidder] != 0;
+    }
 
-        emit BidPlaced(projectId, msg.sender, amountETH);
+    /// @notice Whether `bidder` has an active bid that has been revealed
+    function hasRevealedBid(uint256 projectId, address bidder) public view returns (bool) {
+        uint256 stored = activeBidPlusOne[projectId][bidder];
+        return stored != 0 && projectBids[projectId][stored - 1].revealed;
     }
 
+    function _requireOpen(Project storage p) private view {
+        require(p.status == Status.Open, "Not open");
+        require(block.timestamp < p.deadline, "Deadline passed");
+    }
+
+    function _setStatus(uint256 projectId, Status status) private {
+        projects[projectId].status = status;
+        emit StatusChanged(projectId, status);
+    }
 
-    /// @notice Terminate project & automatically declare winner
+    /// @notice Settle the project once the reveal window has closed; anyone may, and the lowest
+    ///         revealed bid wins. Ending a project early is cancelProject.
     function terminateProject(uint256 projectId) external {
         Project storage p = projects[projectId];
-        require(msg.sender == p.creator, "Only creator");
-        require(!p.terminated, "Already terminated");
+        require(p.status == Status.Open, "Not open");
+        require(block.timestamp >= p.deadline + REVEAL_WINDOW, "Reveal window open");
 
-        p.terminated = true;
         emit ProjectTerminated(projectId, msg.sender);
+        p.awardedAt = block.timestamp;
 
-        if (p.numBids == 0) {
+        if (p.numRevealed == 0) {
             p.winner = address(0);
             p.lowestBid = 0;
+            _setStatus(projectId, Status.NoAward);
+            emit NoAward(projectId, 0, p.reservePrice);
+        } else if (p.reservePrice != 0 && p.lowestBid > p.reservePrice) {
+            p.winner = address(0);
+            _setStatus(projectId, Status.NoAward);
+            emit NoAward(projectId, p.lowestBid, p.reservePrice);
         } else {
             Bid memory b = projectBids[projectId][p.lowestValidBidIndex];
             p.winner = b.bidder;
+            _setStatus(projectId, Status.Awarded);
+            emit WinnerDeclared(projectId, p.winner, p.lowestBid);
+        }
+    }
+
+    // ------------------------------------------------------------------------
+    // Prequalification (restricted projects)
+    // ------------------------------------------------------------------------
+
+    /// @notice Prequalify bidders on a restricted project
+    function addToAllowlist(uint256 projectId, address[] calldata bidders) external {
+        _requireRestrictedCreator(projectId);
+        for (uint256 i = 0; i < bidders.length; i++) {
+            allowlist[projectId][bidders[i]] = true;
+            emit AllowlistUpdated(projectId, bidders[i], true);
+        }
+    }
+
+    /// @notice Revoke prequalification; bids already placed stay valid
+    /// @dev A bidder still covered by the Merkle root can qualify again, so publish a new root too
+    function removeFromAllowlist(uint256 projectId, address[] calldata bidders) external {
+        _requireRestrictedCreator(projectId);
+        for (uint256 i = 0; i < bidders.length; i++) {
+            allowlist[projectId][bidders[i]] = false;
+            emit AllowlistUpdated(projectId, bidders[i], false);
+        }
+    }
+
+    /// @notice Publish a Merkle root of prequalified bidders for large lists (bytes32(0) disables it)
+    /// @dev Leaves follow OpenZeppelin's StandardMerkleTree for `["address"]`
+    function setAllowlistRoot(uint256 projectId, bytes32 root) external {
+        _requireRestrictedCreator(projectId);
+        allowlistRoots[projectId] = root;
+        emit AllowlistRootSet(projectId, root);
+    }
+
+    /// @notice Prove membership of the project's Merkle list once, after which the caller can bid
+    function qualifyWithProof(uint256 projectId, bytes32[] calldata proof) external {
+        bytes32 root = allowlistRoots[projectId];
+        require(root != bytes32(0), "No allowlist root");
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        require(_verifyMerkleProof(proof, root, leaf), "Invalid proof");
+
+        allowlist[projectId][msg.sender] = true;
+        emit AllowlistUpdated(projectId, msg.sender, true);
+    }
+
+    /// @notice Whether `bidder` may bid on the project
+    function isQualified(uint256 projectId, address bidder) public view returns (bool) {
+        return !projects[projectId].restricted || allowlist[projectId][bidder];
+    }
+
+    function _requireRestrictedCreator(uint256 projectId) private view {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.restricted, "Not restricted");
+    }
+
+    /// @dev Sorted-pair hashing, compatible with OpenZeppelin's MerkleProof
+    function _verifyMerkleProof(bytes32[] calldata proof, bytes32 root, bytes32 leaf) private pure returns (bool) {
+        bytes32 hash = leaf;
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            hash = hash < sibling
+                ? keccak256(abi.encodePacked(hash, sibling))
+                : keccak256(abi.encodePacked(sibling, hash));
         }
-        p.winnerDeclared = true;
-        emit WinnerDeclared(projectId, p.winner, p.lowestBid);
+        return hash == root;
     }
 
-    /// @notice Get project statistics
+    // ------------------------------------------------------------------------
+    // Bonds
+    // ------------------------------------------------------------------------
+
+    /// @notice Winner confirms they will deliver and takes their bond back
+    function acceptAward(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(p.status == Status.Awarded, "Winner not declared");
+        require(msg.sender == p.winner, "Only winner");
+        require(!p.awardAccepted, "Already accepted");
+        require(block.timestamp <= p.awardedAt + AWARD_ACCEPT_WINDOW, "Accept window over");
+
+        p.awardAccepted = true;
+        emit AwardAccepted(projectId, msg.sender);
+        if (bonds[projectId][msg.sender] > 0) {
+            _refundBond(projectId, msg.sender);
+        }
+    }
+
+    /// @notice Losing bidders reclaim their bond once the project is settled or cancelled
+    function withdrawBond(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(
+            p.status == Status.Awarded || p.status == Status.NoAward || p.status == Status.Cancelled,
+            "Not settled"
+        );
+        require(msg.sender != p.winner, "Winner must accept award");
+        // a withdrawn bid was refunded already, so only active bids are left to check
+        require(p.status == Status.Cancelled || hasRevealedBid(projectId, msg.sender), "Bid not revealed");
+        _refundBond(projectId, msg.sender);
+    }
+
+    /// @notice Burn the bond of a bidder who never revealed their bid; anyone may call it
+    function burnUnrevealedBond(uint256 projectId, address bidder) external {
+        Project storage p = projects[projectId];
+        require(p.status == Status.Awarded || p.status == Status.NoAward, "Not settled");
+        require(!hasRevealedBid(projectId, bidder), "Bid revealed");
+
+        uint256 amount = bonds[projectId][bidder];
+        require(amount > 0, "No bond");
+        bonds[projectId][bidder] = 0;
+        emit BondForfeited(projectId, bidder, amount);
+        _sendValue(BURN_ADDRESS, amount);
+    }
+
+    /// @notice Creator takes the winner's bond if the award was not accepted in time
+    function claimForfeitedBond(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Awarded, "No award");
+        require(!p.awardAccepted, "Award accepted");
+        require(block.timestamp > p.awardedAt + AWARD_ACCEPT_WINDOW, "Accept window open");
+
+        uint256 amount = bonds[projectId][p.winner];
+        require(amount > 0, "No bond");
+        bonds[projectId][p.winner] = 0;
+        emit BondForfeited(projectId, p.winner, amount);
+        _sendValue(p.creator, amount);
+    }
+
+    function _refundBond(uint256 projectId, address bidder) private {
+        uint256 amount = bonds[projectId][bidder];
+        require(amount > 0, "No bond");
+        bonds[projectId][bidder] = 0;
+        emit BondRefunded(projectId, bidder, amount);
+        _sendValue(bidder, amount);
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        (bool ok, ) = payable(to).call{value: amount}("");
+        require(ok, "Transfer failed");
+    }
+
+    // ------------------------------------------------------------------------
+    // Settlement (see TenderEscrow)
+    // ------------------------------------------------------------------------
+
+    /// @notice Parties of an awarded project and the amount owed, the winning bid in payment token
+    ///         units, for the escrow contract
+    function getAward(uint256 projectId)
+        external
+        view
+        returns (address creator, address winner, address paymentToken, uint256 amount, bool accepted, uint256 awardedAt)
+    {
+        Project storage p = projects[projectId];
+        require(p.status == Status.Awarded, "No award");
+        amount = p.lowestBid * uint256(10) ** (p.tokenDecimals - p.decimals);
+        return (p.creator, p.winner, p.paymentToken, amount, p.awardAccepted, p.awardedAt);
+    }
+
+    function _tokenDecimals(address token) private view returns (uint8) {
+        (bool ok, bytes memory ret) = token.staticcall(abi.encodeWithSelector(DECIMALS));
+        require(ok && ret.length >= 32, "Not an ERC-20");
+        uint256 decimals = abi.decode(ret, (uint256));
+        require(decimals <= type(uint8).max, "Not an ERC-20");
+        return uint8(decimals);
+    }
+
+    /// @notice Get project statistics over revealed bids; each participant is counted once
     function getProjectStats(uint256 projectId)
         external
         view
-        returns (uint256 numParticipants, uint256 averageBidETH, uint256 highestBidETH, uint256 lowestBidETH)
+        returns (uint256 numParticipants, uint256 averageBid, uint256 highestBid, uint256 lowestBid)
     {
         Project storage p = projects[projectId];
-        numParticipants = p.numBids;
+        numParticipants = p.numRevealed;
 
-        if (p.numBids == 0) {
+        if (p.numRevealed == 0) {
             return (0, 0, 0, 0);
         }
-        averageBidETH = p.sumBids / p.numBids;
-        highestBidETH = p.highestBid;
-        lowestBidETH = p.lowestBid;
+        averageBid = p.sumBids / p.numRevealed;
+        highestBid = p.highestBid;
+        lowestBid = p.lowestBid;
     }
 
-    /// @notice View winner and amount (in ETH)
+    /// @notice View winner and amount; both are zero when no bid met the reserve
     function getWinner(uint256 projectId)
         external
         view
-        returns (address winnerAddress, uint256 lowestBidETH)
+        returns (address winnerAddress, uint256 lowestBid)
     {
         Project storage p = projects[projectId];
-        require(p.winnerDeclared, "Winner not declared");
+        require(p.status == Status.Awarded || p.status == Status.NoAward, "Winner not declared");
+        if (p.status == Status.NoAward) return (address(0), 0);
         return (p.winner, p.lowestBid);
     }
+
+    // ------------------------------------------------------------------------
+    // Paginated listing
+    // ------------------------------------------------------------------------
+
+    /// @notice Summaries of projects [offset, offset + limit) by id, at most MAX_PAGE_SIZE,
+    ///         plus the total number of projects
+    function getProjects(uint256 offset, uint256 limit)
+        external
+        view
+        returns (ProjectSummary[] memory page, uint256 total)
+    {
+        total = nextProjectId;
+        page = new ProjectSummary[](_pageLength(total, offset, limit));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _summary(offset + i);
+        }
+    }
+
+    /// @notice Same as getProjects over the projects created by `creator`
+    function getProjectsByCreator(address creator, uint256 offset, uint256 limit)
+        external
+        view
+        returns (ProjectSummary[] memory page, uint256 total)
+    {
+        uint256[] storage ids = creatorProjects[creator];
+        total = ids.length;
+        page = new ProjectSummary[](_pageLength(total, offset, limit));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _summary(ids[offset + i]);
+        }
+    }
+
+    function _summary(uint256 projectId) private view returns (ProjectSummary memory s) {
+        Project storage p = projects[projectId];
+        s.id = projectId;
+        s.creator = p.creator;
+        s.title = p.title;
+        s.deadline = p.deadline;
+        s.status = getStatus(projectId);
+        s.decimals = p.decimals;
+        s.paymentToken = p.paymentToken;
+        s.numBids = p.numBids;
+        s.bondAmount = p.bondAmount;
+        if (p.status == Status.Awarded) s.winner = p.winner;
+        s.restricted = p.restricted;
+    }
+
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) return 0;
+        if (limit > MAX_PAGE_SIZE) limit = MAX_PAGE_SIZE;
+        return total - offset < limit ? total - offset : limit;
+    }
 }
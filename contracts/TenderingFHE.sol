@@ -3,51 +3,136 @@ pragma solidity ^0.8.24;
 
 /**
  * @title FHETendering
- * @notice Tender / bidding contract using Zama FHEVM encrypted values (euint32).
+ * @notice Tender / bidding contract using Zama FHEVM encrypted values (euint64).
  *         - Anyone can create a tender project (title, description, deadline).
- *         - Others place bids (encrypted as euint32).
+ *         - Others place bids (encrypted as euint64), fixed-point amounts with the
+ *           project's `decimals` (e.g. 9 = gwei precision).
+ *         - The encrypted sum is kept up to date on every bid; the lowest bid and its
+ *           bidder are built from the active bids in batches once bidding closes.
  *         - After deadline or manual termination, anyone can trigger decryption.
- *         - Callback receives plaintext bids, computes winner (lowest bid),
- *           plus stats (min / max / average) and stores them.
+ *         - Only the winner, the winning amount and (optionally) the max / average
+ *           are ever decrypted; losing bids stay confidential. Each bidder may
+ *           user-decrypt their own bid.
+ *         - Projects created in second-price (Vickrey) mode award the lowest
+ *           bidder but pay them the second-lowest bid, the only price revealed.
+ *         - Each bid locks the project's bond: losers reclaim it after settlement,
+ *           the winner gets it back by accepting the award in time or forfeits it
+ *           to the creator.
+ *         - Scored projects weigh the price against extra criteria (delivery days,
+ *           warranty months, ...); the lowest encrypted weighted score wins.
+ *         - The creator may set an encrypted reserve price on a draft; if no bid is
+ *           at or below it the project settles with no award.
+ *         - Restricted projects only take bids from prequalified addresses, listed
+ *           by the creator or proven against a Merkle root.
+ *         - In live-stats mode, fixed while drafting, the creator may user-decrypt
+ *           the running lowest / highest / sum while bidding is open.
+ *         - Projects settle in native ETH or an ERC-20 token, paid through TenderEscrow
+ *           once the winner accepts.
+ *         - Lifecycle: Draft -> Open -> Closed (deadline or termination) -> Decrypting
+ *           -> Awarded | NoAward, or Cancelled by the creator before the deadline.
  */
 
-import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, euint128, externalEuint32, externalEuint64, ebool, eaddress } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract FHETendering is SepoliaConfig {
+    uint256 public constant AWARD_ACCEPT_WINDOW = 7 days;
+    uint256 public constant DECRYPTION_TIMEOUT = 1 days; // after which declareWinner may be retried
+    uint256 public constant MAX_CRITERIA = 5;
+    uint32 public constant MAX_CRITERION_WEIGHT = 1000; // with MAX_DECIMALS, keeps euint128 scores from overflowing
+    uint8 public constant MAX_DECIMALS = 18;
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    // bids folded into the encrypted min / max per finalizeStats call, within the coprocessor's
+    // per-transaction HCU limit
+    uint256 public constant FINALIZE_BATCH = 16;
+    uint256 public constant SCORED_FINALIZE_BATCH = 8;
+
+    bytes4 private constant DECIMALS = 0x313ce567; // ERC-20 decimals()
+
     // ------------------------------------------------------------------------
     // Data structures
     // ------------------------------------------------------------------------
 
+    enum Status { Draft, Open, Closed, Decrypting, Awarded, Cancelled, NoAward }
+
     struct Project {
         address creator;
         string title;
         string description;
         uint256 deadline;
-        bool terminated;
+        Status status; // stored as Open after the deadline, see getStatus
+        uint8 decimals; // bid amounts are integers in units of 10^-decimals
 
-        // state of results
-        bool decryptionPending;
-        bool winnerDeclared;
-
-        // ciphertext stats
-        euint32 lowestBidEncrypted;
-        euint32 highestBidEncrypted;
-        euint32 sumBidsEncrypted;
+        // auction rules
+        bool secondPrice; // Vickrey: lowest bidder wins, paid the second-lowest bid
+        bool revealStats; // also decrypt highest / average bid on award
+        bool hasReserve; // an encrypted ceiling was set before bidding opened
+        bool restricted; // only prequalified bidders may bid
+        bool creatorLiveStats; // creator may user-decrypt the running stats
 
         // plaintext stats (filled in callback)
-        uint32 lowestBidPlain;
-        uint32 highestBidPlain;
-        uint32 averageBidPlain;
+        uint64 lowestBidPlain; // winning bid: lowest price or the best-scoring bid's price; 0 for a Vickrey award with rivals
+        uint64 highestBidPlain;
+        uint64 averageBidPlain;
+        uint64 clearingPricePlain; // amount paid to the winner
 
         // participants info
-        uint256 numBids;
+        uint256 numBids; // active bids, at most one per bidder
         address winner;
+
+        // bonds
+        uint256 bondAmount; // wei locked per bid
+        uint256 awardedAt;
+        bool awardAccepted;
+
+        // settlement
+        address paymentToken; // address(0) = native ETH
+        uint8 tokenDecimals; // decimals of paymentToken (18 for ETH), at least `decimals`
+    }
+
+    // ciphertext stats, kept out of Project so its public getter stays small
+    struct EncryptedStats {
+        euint64 lowestBidEncrypted;
+        euint64 secondLowestBidEncrypted;
+        euint64 highestBidEncrypted;
+        euint128 sumBidsEncrypted; // wide enough that summing 64-bit bids cannot wrap
+        eaddress winnerEncrypted; // bidder holding lowestBidEncrypted (or bestScoreEncrypted)
+        euint128 bestScoreEncrypted; // scored projects only
+        euint64 winningBidEncrypted; // scored projects only: price of the best-scoring bid
+        euint64 reserveEncrypted; // maximum acceptable bid, if hasReserve
+    }
+
+    /// @dev Extra evaluation criterion; a lower weighted score is better
+    struct Criterion {
+        string name;
+        uint32 weight;
+        bool higherIsBetter; // e.g. warranty months: scored as the shortfall below `cap`
+        uint32 cap;
+    }
+
+    /// @dev One row of getProjects / getProjectsByCreator
+    struct ProjectSummary {
+        uint256 id;
+        address creator;
+        string title;
+        uint256 deadline;
+        Status status; // as reported by getStatus
+        uint8 decimals;
+        address paymentToken;
+        uint256 numBids;
+        uint256 bondAmount;
+        address winner; // zero unless Awarded
+        bool secondPrice;
+        bool hasReserve;
+        bool restricted;
+        bool scored; // has evaluation criteria
     }
 
     struct EncryptedBid {
         address bidder;
-        euint32 amount; // encrypted bid amount
+        euint64 amount; // encrypted bid amount
+        bool active; // false once withdrawn
+        euint128 score; // encrypted weighted score, scored projects only
     }
 
     // ------------------------------------------------------------------------
@@ -57,129 +142,637 @@ contract FHETendering is SepoliaConfig {
     uint256 public nextProjectId;
     mapping(uint256 => Project) public projects;
     mapping(uint256 => EncryptedBid[]) public projectBids;
+    mapping(uint256 => EncryptedStats) private encryptedStats;
+    // scoring rules; a project without criteria is decided on price alone
+    mapping(uint256 => uint32) public priceWeights;
+    mapping(uint256 => Criterion[]) private projectCriteria;
+    // projectId -> bidder -> prequalified for a restricted project
+    mapping(uint256 => mapping(address => bool)) public allowlist;
+    // projectId -> Merkle root of further prequalified bidders (0 = none)
+    mapping(uint256 => bytes32) public allowlistRoots;
+    // projectId -> bidder -> bond held (wei)
+    mapping(uint256 => mapping(address => uint256)) public bonds;
+    // projectId -> bidder -> index of their active bid + 1 (0 = none)
+    mapping(uint256 => mapping(address => uint256)) private activeBidPlusOne;
+    // creator -> ids of their projects, oldest first
+    mapping(address => uint256[]) private creatorProjects;
+
+    // projectId -> entries of projectBids folded into the order statistics so far
+    mapping(uint256 => uint256) public finalizedBids;
 
     // requestId -> projectId+1  (avoid 0 ambiguity)
     mapping(uint256 => uint256) private requestToProjectPlusOne;
+    // projectId -> time of the latest winner decryption request
+    mapping(uint256 => uint256) public decryptionRequestedAt;
 
     // ------------------------------------------------------------------------
     // Events
     // ------------------------------------------------------------------------
 
-    event ProjectCreated(uint256 indexed projectId, address indexed creator, uint256 deadline);
+    event ProjectCreated(uint256 indexed projectId, address indexed creator, uint256 deadline, bool secondPrice);
+    event StatusChanged(uint256 indexed projectId, Status status);
+    event ReservePriceSet(uint256 indexed projectId);
+    event LiveStatsEnabled(uint256 indexed projectId);
+    event AllowlistUpdated(uint256 indexed projectId, address indexed bidder, bool allowed);
+    event AllowlistRootSet(uint256 indexed projectId, bytes32 root);
     event EncryptedBidPlaced(uint256 indexed projectId, address indexed bidder);
+    event EncryptedBidUpdated(uint256 indexed projectId, address indexed bidder);
+    event EncryptedBidWithdrawn(uint256 indexed projectId, address indexed bidder);
     event ProjectTerminated(uint256 indexed projectId, address indexed terminator);
+    event StatsFinalized(uint256 indexed projectId, uint256 folded, uint256 total);
     event WinnerDeclared(
         uint256 indexed projectId,
         address winner,
-        uint32 lowestBidPlain,
-        uint32 highestBidPlain,
-        uint32 averageBidPlain,
+        uint64 lowestBidPlain,
+        uint64 clearingPricePlain,
+        uint64 highestBidPlain,
+        uint64 averageBidPlain,
         uint256 numParticipants
     );
+    event NoAward(uint256 indexed projectId, uint256 numParticipants);
+    event AwardAccepted(uint256 indexed projectId, address indexed winner);
+    event BondRefunded(uint256 indexed projectId, address indexed bidder, uint256 amount);
+    event BondForfeited(uint256 indexed projectId, address indexed winner, uint256 amount);
 
     // ------------------------------------------------------------------------
     // Project creation / bidding
     // ------------------------------------------------------------------------
 
     /// @notice Create a new tender project
+    /// @param _decimals Fixed-point decimals of bid amounts, at most the payment token's decimals (bids must fit a uint64)
+    /// @param _paymentToken ERC-20 the winner is paid in, or address(0) for native ETH
+    /// @param _secondPrice If true, the winner is paid the second-lowest bid (Vickrey)
+    /// @param _revealStats If true, the highest and average bid are published with the winner
+    /// @param _bondAmount Wei each bidder must lock with their bid (0 for none)
+    /// @param _priceWeight Weight of the price in the score (ignored without criteria)
+    /// @param _criteria Extra weighted criteria; empty for a price-only tender
+    /// @param _restricted If true, only addresses on the project's allowlist may bid
+    /// @param _draft If true, bidding stays closed until the creator calls openProject
     function createProject(
         string calldata _title,
         string calldata _description,
-        uint256 _deadline
+        uint256 _deadline,
+        uint8 _decimals,
+        address _paymentToken,
+        bool _secondPrice,
+        bool _revealStats,
+        uint256 _bondAmount,
+        uint32 _priceWeight,
+        Criterion[] calldata _criteria,
+        bool _restricted,
+        bool _draft
     ) external returns (uint256 projectId) {
         require(_deadline > block.timestamp, "Deadline must be future");
+        require(_decimals <= MAX_DECIMALS, "Too many decimals");
+        uint8 tokenDecimals = _paymentToken == address(0) ? 18 : _tokenDecimals(_paymentToken);
+        require(_decimals <= tokenDecimals, "Too many decimals");
+        require(_criteria.length <= MAX_CRITERIA, "Too many criteria");
+        if (_criteria.length > 0) {
+            require(!_secondPrice, "Vickrey needs price-only");
+            require(_priceWeight <= MAX_CRITERION_WEIGHT, "Weight too high");
+        }
 
         projectId = nextProjectId;
         nextProjectId++;
+        creatorProjects[msg.sender].push(projectId);
 
         Project storage p = projects[projectId];
         p.creator = msg.sender;
         p.title = _title;
         p.description = _description;
         p.deadline = _deadline;
+        p.decimals = _decimals;
+        p.secondPrice = _secondPrice;
+        p.revealStats = _revealStats;
+        p.bondAmount = _bondAmount;
+        p.restricted = _restricted;
+        p.paymentToken = _paymentToken;
+        p.tokenDecimals = tokenDecimals;
+
+        if (_criteria.length > 0) {
+            priceWeights[projectId] = _priceWeight;
+            for (uint256 i = 0; i < _criteria.length; i++) {
+                require(_criteria[i].weight > 0, "Zero weight");
+                require(_criteria[i].weight <= MAX_CRITERION_WEIGHT, "Weight too high");
+                projectCriteria[projectId].push(_criteria[i]);
+            }
+        }
 
         // initialise encrypted stats
-        p.sumBidsEncrypted = FHE.asEuint32(0);
-        p.lowestBidEncrypted = FHE.asEuint32(type(uint32).max);
-        p.highestBidEncrypted = FHE.asEuint32(0);
+        encryptedStats[projectId].sumBidsEncrypted = FHE.asEuint128(0);
+        _resetEncryptedStats(projectId);
+        _allowEncryptedStats(projectId);
 
-        emit ProjectCreated(projectId, msg.sender, _deadline);
+        emit ProjectCreated(projectId, msg.sender, _deadline, _secondPrice);
+        _setStatus(projectId, _draft ? Status.Draft : Status.Open);
     }
 
-    /// @notice Submit an encrypted bid
-    function placeEncryptedBid(
+    /// @notice Open a draft project for bidding once its reserve / allowlist are in place
+    function openProject(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Draft, "Not a draft");
+        require(block.timestamp < p.deadline, "Deadline passed");
+        _setStatus(projectId, Status.Open);
+    }
+
+    /// @notice Call off a project before its deadline; nobody is awarded and bonds are returned on request
+    function cancelProject(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Draft || p.status == Status.Open, "Not cancellable");
+        require(block.timestamp < p.deadline, "Deadline passed");
+        _setStatus(projectId, Status.Cancelled);
+    }
+
+    /// @notice Current lifecycle status; an open project reads as Closed once its deadline passes
+    function getStatus(uint256 projectId) public view returns (Status) {
+        Project storage p = projects[projectId];
+        if (p.status == Status.Open && block.timestamp >= p.deadline) return Status.Closed;
+        return p.status;
+    }
+
+    /// @notice Set the encrypted maximum acceptable bid; only possible on a draft, so the creator
+    ///         cannot slip one in ahead of the first bid
+    function setReservePrice(
         uint256 projectId,
-        externalEuint32 encInput,
+        externalEuint64 encReserve,
         bytes calldata inputProof
     ) external {
         Project storage p = projects[projectId];
-        require(!p.terminated, "Terminated");
-        require(block.timestamp < p.deadline, "Deadline passed");
-        require(!p.winnerDeclared, "Winner declared");
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Draft, "Not a draft");
+
+        euint64 reserve = FHE.fromExternal(encReserve, inputProof);
+        FHE.allowThis(reserve);
+        FHE.allow(reserve, msg.sender);
+        encryptedStats[projectId].reserveEncrypted = reserve;
+        p.hasReserve = true;
+
+        emit ReservePriceSet(projectId);
+    }
+
+    /// @notice Let the creator watch the encrypted running stats; only possible on a draft,
+    ///         so every bidder knows about it when bidding
+    function enableLiveStats(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Draft, "Not a draft");
+
+        p.creatorLiveStats = true;
+        _allowEncryptedStats(projectId);
+
+        emit LiveStatsEnabled(projectId);
+    }
+
+    /// @notice Running stat handles for the creator to user-decrypt (average = sum / numBids).
+    ///         While bidding is open the lowest / highest only ever take bids in, so they still
+    ///         count revised or withdrawn bids; finalizeStats rebuilds them after the deadline.
+    function getLiveStatsHandles(uint256 projectId)
+        external
+        view
+        returns (euint64 lowestBid, euint64 highestBid, euint128 sumBids)
+    {
+        require(projects[projectId].creatorLiveStats, "Live stats disabled");
+        EncryptedStats storage st = encryptedStats[projectId];
+        return (st.lowestBidEncrypted, st.highestBidEncrypted, st.sumBidsEncrypted);
+    }
+
+    /// @notice Submit an encrypted bid, sending the project's bond as msg.value
+    function placeEncryptedBid(
+        uint256 projectId,
+        externalEuint64 encInput,
+        bytes calldata inputProof
+    ) external payable {
+        require(projectCriteria[projectId].length == 0, "Scored project");
 
         // convert external to internal encrypted handle
-        euint32 encBid = FHE.fromExternal(encInput, inputProof);
+        euint64 encBid = FHE.fromExternal(encInput, inputProof);
+        _storeBid(projectId, encBid, euint128.wrap(0));
 
-        projectBids[projectId].push(EncryptedBid(msg.sender, encBid));
+        emit EncryptedBidPlaced(projectId, msg.sender);
+    }
+
+    /// @notice Submit an encrypted price plus one encrypted value per project criterion
+    function placeScoredBid(
+        uint256 projectId,
+        externalEuint64 encPrice,
+        externalEuint32[] calldata encValues,
+        bytes calldata inputProof
+    ) external payable {
+        require(projectCriteria[projectId].length > 0, "Not a scored project");
+
+        euint64 encBid = FHE.fromExternal(encPrice, inputProof);
+        _storeBid(projectId, encBid, _scoreBid(projectId, encBid, encValues, inputProof));
+
+        emit EncryptedBidPlaced(projectId, msg.sender);
+    }
+
+    /// @notice Replace the caller's active encrypted bid before the deadline
+    function updateEncryptedBid(
+        uint256 projectId,
+        externalEuint64 encInput,
+        bytes calldata inputProof
+    ) external {
+        require(projectCriteria[projectId].length == 0, "Scored project");
+
+        euint64 encBid = FHE.fromExternal(encInput, inputProof);
+        _replaceBid(projectId, encBid, euint128.wrap(0));
+
+        emit EncryptedBidUpdated(projectId, msg.sender);
+    }
+
+    /// @notice Replace the caller's active scored bid before the deadline
+    function updateScoredBid(
+        uint256 projectId,
+        externalEuint64 encPrice,
+        externalEuint32[] calldata encValues,
+        bytes calldata inputProof
+    ) external {
+        require(projectCriteria[projectId].length > 0, "Not a scored project");
+
+        euint64 encBid = FHE.fromExternal(encPrice, inputProof);
+        _replaceBid(projectId, encBid, _scoreBid(projectId, encBid, encValues, inputProof));
+
+        emit EncryptedBidUpdated(projectId, msg.sender);
+    }
+
+    /// @notice Retract the caller's active encrypted bid before the deadline and take back the bond
+    function withdrawEncryptedBid(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        _requireOpen(p);
+        uint256 stored = activeBidPlusOne[projectId][msg.sender];
+        require(stored != 0, "No active bid");
+
+        EncryptedBid storage b = projectBids[projectId][stored - 1];
+        b.active = false;
+        delete activeBidPlusOne[projectId][msg.sender];
+        p.numBids--;
+
+        EncryptedStats storage st = encryptedStats[projectId];
+        st.sumBidsEncrypted = FHE.sub(st.sumBidsEncrypted, FHE.asEuint128(b.amount));
+        _allowEncryptedStats(projectId);
+
+        emit EncryptedBidWithdrawn(projectId, msg.sender);
+        if (bonds[projectId][msg.sender] > 0) {
+            _refundBond(projectId, msg.sender);
+        }
+    }
+
+    /// @notice Whether `bidder` currently has a bid on the project
+    function hasActiveBid(uint256 projectId, address bidder) external view returns (bool) {
+        return activeBidPlusOne[projectId][bidder] != 0;
+    }
+
+    /// @notice Encrypted handle of `bidder`'s active bid; only that bidder may user-decrypt it
+    function getBidHandle(uint256 projectId, address bidder) external view returns (euint64) {
+        uint256 stored = activeBidPlusOne[projectId][bidder];
+        require(stored != 0, "No active bid");
+        return projectBids[projectId][stored - 1].amount;
+    }
+
+    /// @notice Extra evaluation criteria of a scored project (empty for price-only)
+    function getCriteria(uint256 projectId) external view returns (Criterion[] memory) {
+        return projectCriteria[projectId];
+    }
+
+    /// @dev Bid handles are kept (allowThis) for finalizeStats, and shared with the bidder so
+    ///      they can check what was stored. Only the sum is updated here, so the cost of a bid
+    ///      does not grow with the number of bids.
+    function _storeBid(uint256 projectId, euint64 encBid, euint128 score) private {
+        Project storage p = projects[projectId];
+        _requireOpen(p);
+        require(isQualified(projectId, msg.sender), "Not prequalified");
+        require(msg.value == p.bondAmount, "Wrong bond");
+        require(activeBidPlusOne[projectId][msg.sender] == 0, "Already bid");
+
+        bonds[projectId][msg.sender] += msg.value;
+
+        FHE.allowThis(encBid);
+        FHE.allow(encBid, msg.sender);
+        if (FHE.isInitialized(score)) FHE.allowThis(score);
+
+        projectBids[projectId].push(EncryptedBid(msg.sender, encBid, true, score));
+        activeBidPlusOne[projectId][msg.sender] = projectBids[projectId].length;
         p.numBids++;
 
-        // update encrypted sum / min / max
-        p.sumBidsEncrypted = FHE.add(p.sumBidsEncrypted, encBid);
+        EncryptedStats storage st = encryptedStats[projectId];
+        st.sumBidsEncrypted = FHE.add(st.sumBidsEncrypted, FHE.asEuint128(encBid));
+        if (p.creatorLiveStats) _accumulateLiveStats(projectId, encBid);
+        _allowEncryptedStats(projectId);
+    }
+
+    function _replaceBid(uint256 projectId, euint64 encBid, euint128 score) private {
+        Project storage p = projects[projectId];
+        _requireOpen(p);
+        uint256 stored = activeBidPlusOne[projectId][msg.sender];
+        require(stored != 0, "No active bid");
+
+        FHE.allowThis(encBid);
+        FHE.allow(encBid, msg.sender);
+        if (FHE.isInitialized(score)) FHE.allowThis(score);
+
+        EncryptedBid storage b = projectBids[projectId][stored - 1];
+        EncryptedStats storage st = encryptedStats[projectId];
+        st.sumBidsEncrypted = FHE.add(
+            FHE.sub(st.sumBidsEncrypted, FHE.asEuint128(b.amount)),
+            FHE.asEuint128(encBid)
+        );
+        b.amount = encBid;
+        b.score = score;
 
-        ebool lower = FHE.lt(encBid, p.lowestBidEncrypted);
-        p.lowestBidEncrypted = FHE.select(lower, encBid, p.lowestBidEncrypted);
+        if (p.creatorLiveStats) _accumulateLiveStats(projectId, encBid);
+        _allowEncryptedStats(projectId);
+    }
 
-        ebool higher = FHE.gt(encBid, p.highestBidEncrypted);
-        p.highestBidEncrypted = FHE.select(higher, encBid, p.highestBidEncrypted);
+    /// @dev score = priceWeight * price + sum(weight * value * 10^decimals), higher-is-better values
+    ///      counted as their shortfall below the cap. Prices are in units of 10^-decimals but
+    ///      criterion values in whole days / months, so the criteria are scaled up to match: a
+    ///      weight counts per whole token of price as per day. A bid over the reserve gets the
+    ///      worst possible score so it cannot win, which keeps the reserve check out of finalizeStats.
+    function _scoreBid(
+        uint256 projectId,
+        euint64 encBid,
+        externalEuint32[] calldata encValues,
+        bytes calldata inputProof
+    ) private returns (euint128 score) {
+        Criterion[] storage criteria = projectCriteria[projectId];
+        require(encValues.length == criteria.length, "Criteria mismatch");
+
+        score = FHE.mul(FHE.asEuint128(encBid), uint128(priceWeights[projectId]));
+        uint128 unit = uint128(10) ** projects[projectId].decimals;
+        for (uint256 i = 0; i < criteria.length; i++) {
+            euint32 v = FHE.fromExternal(encValues[i], inputProof);
+            if (criteria[i].higherIsBetter) {
+                v = FHE.sub(criteria[i].cap, FHE.min(v, criteria[i].cap));
+            }
+            score = FHE.add(score, FHE.mul(FHE.asEuint128(v), uint128(criteria[i].weight) * unit));
+        }
+        if (projects[projectId].hasReserve) {
+            score = FHE.select(
+                FHE.le(encBid, encryptedStats[projectId].reserveEncrypted),
+                score,
+                FHE.asEuint128(type(uint128).max)
+            );
+        }
+    }
 
-        FHE.allowThis(p.sumBidsEncrypted);
-        FHE.allowThis(p.lowestBidEncrypted);
-        FHE.allowThis(p.highestBidEncrypted);
+    function _requireOpen(Project storage p) private view {
+        require(p.status == Status.Open, "Not open");
+        require(block.timestamp < p.deadline, "Deadline passed");
+    }
 
-        emit EncryptedBidPlaced(projectId, msg.sender);
+    function _setStatus(uint256 projectId, Status status) private {
+        projects[projectId].status = status;
+        emit StatusChanged(projectId, status);
     }
 
-    /// @notice Manually terminate a project (before deadline)
+    /// @notice Manually terminate a project (before deadline). Not on live-stats projects: a creator
+    ///         who watches the running lowest bid could stop bidding while a favoured bidder leads,
+    ///         so they can only cancel.
     function terminateProject(uint256 projectId) external {
         Project storage p = projects[projectId];
         require(msg.sender == p.creator, "Only creator");
-        require(!p.terminated, "Already terminated");
-        require(!p.winnerDeclared, "Winner declared");
-        p.terminated = true;
+        require(p.status == Status.Open, "Not open");
+        require(!p.creatorLiveStats, "Live stats: cancel instead");
         emit ProjectTerminated(projectId, msg.sender);
+        _setStatus(projectId, Status.Closed);
+    }
+
+    // ------------------------------------------------------------------------
+    // Prequalification (restricted projects)
+    // ------------------------------------------------------------------------
+
+    /// @notice Prequalify bidders on a restricted project
+    function addToAllowlist(uint256 projectId, address[] calldata bidders) external {
+        _requireRestrictedCreator(projectId);
+        for (uint256 i = 0; i < bidders.length; i++) {
+            allowlist[projectId][bidders[i]] = true;
+            emit AllowlistUpdated(projectId, bidders[i], true);
+        }
+    }
+
+    /// @notice Revoke prequalification; bids already placed stay valid
+    /// @dev A bidder still covered by the Merkle root can qualify again, so publish a new root too
+    function removeFromAllowlist(uint256 projectId, address[] calldata bidders) external {
+        _requireRestrictedCreator(projectId);
+        for (uint256 i = 0; i < bidders.length; i++) {
+            allowlist[projectId][bidders[i]] = false;
+            emit AllowlistUpdated(projectId, bidders[i], false);
+        }
+    }
+
+    /// @notice Publish a Merkle root of prequalified bidders for large lists (bytes32(0) disables it)
+    /// @dev Leaves follow OpenZeppelin's StandardMerkleTree for `["address"]`
+    function setAllowlistRoot(uint256 projectId, bytes32 root) external {
+        _requireRestrictedCreator(projectId);
+        allowlistRoots[projectId] = root;
+        emit AllowlistRootSet(projectId, root);
+    }
+
+    /// @notice Prove membership of the project's Merkle list once, after which the caller can bid
+    function qualifyWithProof(uint256 projectId, bytes32[] calldata proof) external {
+        bytes32 root = allowlistRoots[projectId];
+        require(root != bytes32(0), "No allowlist root");
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        require(_verifyMerkleProof(proof, root, leaf), "Invalid proof");
+
+        allowlist[projectId][msg.sender] = true;
+        emit AllowlistUpdated(projectId, msg.sender, true);
+    }
+
+    /// @notice Whether `bidder` may bid on the project
+    function isQualified(uint256 projectId, address bidder) public view returns (bool) {
+        return !projects[projectId].restricted || allowlist[projectId][bidder];
+    }
+
+    function _requireRestrictedCreator(uint256 projectId) private view {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.restricted, "Not restricted");
+    }
+
+    /// @dev Sorted-pair hashing, compatible with OpenZeppelin's MerkleProof
+    function _verifyMerkleProof(bytes32[] calldata proof, bytes32 root, bytes32 leaf) private pure returns (bool) {
+        bytes32 hash = leaf;
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            hash = hash < sibling
+                ? keccak256(abi.encodePacked(hash, sibling))
+                : keccak256(abi.encodePacked(sibling, hash));
+        }
+        return hash == root;
+    }
+
+    // ------------------------------------------------------------------------
+    // Encrypted running stats
+    // ------------------------------------------------------------------------
+
+    /// @dev Order statistics only; the sum is kept up to date bid by bid
+    function _resetEncryptedStats(uint256 projectId) private {
+        EncryptedStats storage st = encryptedStats[projectId];
+        st.lowestBidEncrypted = FHE.asEuint64(type(uint64).max);
+        st.secondLowestBidEncrypted = FHE.asEuint64(type(uint64).max);
+        st.highestBidEncrypted = FHE.asEuint64(0);
+        st.winnerEncrypted = FHE.asEaddress(address(0));
+        if (projectCriteria[projectId].length > 0) {
+            st.bestScoreEncrypted = FHE.asEuint128(type(uint128).max);
+            st.winningBidEncrypted = FHE.asEuint64(0);
+        }
+    }
+
+    /// @dev Fold one bid into the encrypted min / second min / max / winner
+    function _accumulateBid(uint256 projectId, euint64 encBid, euint128 score, address bidder) private {
+        EncryptedStats storage st = encryptedStats[projectId];
+
+        // a new minimum pushes the old one down to second place
+        ebool lower = FHE.lt(encBid, st.lowestBidEncrypted);
+        ebool secondLower = FHE.lt(encBid, st.secondLowestBidEncrypted);
+        st.secondLowestBidEncrypted = FHE.select(
+            lower,
+            st.lowestBidEncrypted,
+            FHE.select(secondLower, encBid, st.secondLowestBidEncrypted)
+        );
+        st.lowestBidEncrypted = FHE.select(lower, encBid, st.lowestBidEncrypted);
+
+        ebool higher = FHE.gt(encBid, st.highestBidEncrypted);
+        st.highestBidEncrypted = FHE.select(higher, encBid, st.highestBidEncrypted);
+
+        if (projectCriteria[projectId].length > 0) {
+            // scored projects are won by the best score, not the lowest price;
+            // bids over the reserve were given the worst score in _scoreBid
+            ebool better = FHE.lt(score, st.bestScoreEncrypted);
+            st.bestScoreEncrypted = FHE.select(better, score, st.bestScoreEncrypted);
+            st.winningBidEncrypted = FHE.select(better, encBid, st.winningBidEncrypted);
+            st.winnerEncrypted = FHE.select(better, FHE.asEaddress(bidder), st.winnerEncrypted);
+        } else {
+            st.winnerEncrypted = FHE.select(lower, FHE.asEaddress(bidder), st.winnerEncrypted);
+        }
+    }
+
+    /// @dev Running lowest / highest for the creator's live view; a revised or withdrawn bid
+    ///      cannot be taken back out of a min / max, so these are only a preview
+    function _accumulateLiveStats(uint256 projectId, euint64 encBid) private {
+        EncryptedStats storage st = encryptedStats[projectId];
+        st.lowestBidEncrypted = FHE.min(encBid, st.lowestBidEncrypted);
+        st.highestBidEncrypted = FHE.max(encBid, st.highestBidEncrypted);
+    }
+
+    /// @notice Fold the next `count` bids (at most FINALIZE_BATCH, or SCORED_FINALIZE_BATCH on a
+    ///         scored project) into the encrypted lowest / second lowest / highest / winner once
+    ///         bidding has closed. Anyone may call it; declareWinner needs every bid folded in.
+    function finalizeStats(uint256 projectId, uint256 count) external {
+        require(getStatus(projectId) == Status.Closed, "Not closed");
+        EncryptedBid[] storage bids = projectBids[projectId];
+        uint256 from = finalizedBids[projectId];
+        require(from < bids.length, "Already finalized");
+
+        uint256 batch = projectCriteria[projectId].length > 0 ? SCORED_FINALIZE_BATCH : FINALIZE_BATCH;
+        if (count > batch) count = batch;
+        if (count > bids.length - from) count = bids.length - from;
+
+        // the first batch drops whatever the live preview accumulated while bidding was open
+        if (from == 0) _resetEncryptedStats(projectId);
+        for (uint256 i = from; i < from + count; i++) {
+            if (!bids[i].active) continue;
+            _accumulateBid(projectId, bids[i].amount, bids[i].score, bids[i].bidder);
+        }
+        finalizedBids[projectId] = from + count;
+        _allowEncryptedStats(projectId);
+
+        emit StatsFinalized(projectId, from + count, bids.length);
+    }
+
+    /// @notice Bids folded in by finalizeStats so far, out of all bids ever stored (withdrawn included)
+    function finalizeProgress(uint256 projectId) external view returns (uint256 folded, uint256 total) {
+        return (finalizedBids[projectId], projectBids[projectId].length);
+    }
+
+    function _allowEncryptedStats(uint256 projectId) private {
+        EncryptedStats storage st = encryptedStats[projectId];
+        FHE.allowThis(st.sumBidsEncrypted);
+        FHE.allowThis(st.lowestBidEncrypted);
+        FHE.allowThis(st.secondLowestBidEncrypted);
+        FHE.allowThis(st.highestBidEncrypted);
+        FHE.allowThis(st.winnerEncrypted);
+        if (projectCriteria[projectId].length > 0) {
+            FHE.allowThis(st.bestScoreEncrypted);
+            FHE.allowThis(st.winningBidEncrypted);
+        }
+
+        // stats are new handles after every bid, so the creator's access is granted again each time
+        Project storage p = projects[projectId];
+        if (p.creatorLiveStats) {
+            FHE.allow(st.lowestBidEncrypted, p.creator);
+            FHE.allow(st.highestBidEncrypted, p.creator);
+            FHE.allow(st.sumBidsEncrypted, p.creator);
+        }
     }
 
     // ------------------------------------------------------------------------
     // Winner declaration (async decryption)
     // ------------------------------------------------------------------------
 
-    /// @notice Trigger decryption of all bids to compute winner & stats
+    /// @notice Trigger decryption of the winning bid and bidder (losing bids are never decrypted),
+    ///         after finalizeStats has folded in every bid.
+    ///         If the oracle has not answered within DECRYPTION_TIMEOUT anyone may request it
+    ///         again, so bonds cannot stay locked in Decrypting; the first answer settles.
     function declareWinner(uint256 projectId) external {
         Project storage p = projects[projectId];
-        require(!p.winnerDeclared, "Already declared");
-        require(p.terminated || block.timestamp >= p.deadline, "Not finished");
-        require(!p.decryptionPending, "Decryption running");
-
-        uint256 n = projectBids[projectId].length;
+        Status status = getStatus(projectId);
+        require(
+            status == Status.Closed ||
+                (status == Status.Decrypting && block.timestamp > decryptionRequestedAt[projectId] + DECRYPTION_TIMEOUT),
+            "Not closed"
+        );
 
-        if (n == 0) {
-            // no bids, just mark empty result
-            p.winnerDeclared = true;
-            emit WinnerDeclared(projectId, address(0), 0, 0, 0, 0);
+        if (p.numBids == 0) {
+            // no bids, nothing to decrypt
+            p.awardedAt = block.timestamp;
+            _setStatus(projectId, Status.NoAward);
+            emit NoAward(projectId, 0);
             return;
         }
+        require(finalizedBids[projectId] == projectBids[projectId].length, "Stats not finalized");
+
+        EncryptedStats storage st = encryptedStats[projectId];
+        bool scored = projectCriteria[projectId].length > 0;
+
+        // order: price, winner, [highest, sum]. A Vickrey project with rivals decrypts the
+        // second-lowest bid as its price, so the lowest bid itself is never revealed
+        bool clearingOnly = p.secondPrice && p.numBids > 1;
+        uint256 count = p.revealStats ? 4 : 2;
+
+        euint64 price = scored
+            ? st.winningBidEncrypted
+            : (clearingOnly ? st.secondLowestBidEncrypted : st.lowestBidEncrypted);
+        eaddress winner = st.winnerEncrypted;
+        if (p.hasReserve) {
+            // without a bid under the reserve, decrypt a zero winner so no bid amount leaks
+            ebool awarded = scored
+                ? FHE.lt(st.bestScoreEncrypted, type(uint128).max)
+                : FHE.le(st.lowestBidEncrypted, st.reserveEncrypted);
+            // the Vickrey payout is capped at the reserve
+            if (clearingOnly) price = FHE.min(price, st.reserveEncrypted);
+            price = FHE.select(awarded, price, FHE.asEuint64(0));
+            winner = FHE.select(awarded, winner, FHE.asEaddress(address(0)));
+        }
 
-        bytes32[] memory ciphers = new bytes32[](n);
-        for (uint256 i = 0; i < n; i++) {
-            ciphers[i] = FHE.toBytes32(projectBids[projectId][i].amount);
+        bytes32[] memory ciphers = new bytes32[](count);
+        ciphers[0] = FHE.toBytes32(price);
+        ciphers[1] = FHE.toBytes32(winner);
+        if (p.revealStats) {
+            ciphers[2] = FHE.toBytes32(st.highestBidEncrypted);
+            ciphers[3] = FHE.toBytes32(st.sumBidsEncrypted);
         }
 
         uint256 reqId = FHE.requestDecryption(ciphers, this.callbackDeclareWinner.selector);
         requestToProjectPlusOne[reqId] = projectId + 1;
-        p.decryptionPending = true;
+        decryptionRequestedAt[projectId] = block.timestamp;
+        _setStatus(projectId, Status.Decrypting);
     }
 
-    /// @notice Callback executed by FHE relayer once plaintext bids are available
+    /// @notice Callback executed by FHE relayer once the requested values are decrypted
     function callbackDeclareWinner(
         uint256 requestId,
         bytes memory cleartexts,
@@ -189,66 +782,224 @@ contract FHETendering is SepoliaConfig {
         require(stored != 0, "Unknown request");
         uint256 projectId = stored - 1;
         Project storage p = projects[projectId];
-        require(p.decryptionPending, "No pending");
+        if (p.status != Status.Decrypting) {
+            // answer to a request superseded by a retry after the first one settled
+            delete requestToProjectPlusOne[requestId];
+            return;
+        }
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint32[] memory bids = abi.decode(cleartexts, (uint32[]));
-        uint256 n = bids.length;
+        uint64 price = uint64(_cleartextAt(cleartexts, 0));
+        address winner = address(uint160(_cleartextAt(cleartexts, 1)));
+        uint256 next = 2;
 
-        uint32 minVal = type(uint32).max;
-        uint32 maxVal = 0;
-        uint32 sum = 0;
-        uint256 minIndex = 0;
+        // a Vickrey award with rivals only knows the clearing price; a lone Vickrey bidder
+        // has no second price and is paid their own bid
+        uint64 minVal = p.secondPrice && p.numBids > 1 ? 0 : price;
 
-        for (uint256 i = 0; i < n; i++) {
-            uint32 v = bids[i];
-            sum += v;
-            if (v < minVal) {
-                minVal = v;
-                minIndex = i;
-            }
-            if (v > maxVal) maxVal = v;
+        uint64 maxVal = 0;
+        uint64 avg = 0;
+        if (p.revealStats) {
+            maxVal = uint64(_cleartextAt(cleartexts, next++));
+            uint256 sum = _cleartextAt(cleartexts, next++);
+            avg = uint64(sum / p.numBids);
         }
-        uint32 avg = n > 0 ? sum / uint32(n) : 0;
 
         // store results
         p.lowestBidPlain = minVal;
         p.highestBidPlain = maxVal;
         p.averageBidPlain = avg;
-        p.winner = projectBids[projectId][minIndex].bidder;
+        p.clearingPricePlain = price;
+        p.winner = winner;
 
-        p.winnerDeclared = true;
-        p.decryptionPending = false;
+        p.awardedAt = block.timestamp;
         delete requestToProjectPlusOne[requestId];
 
-        emit WinnerDeclared(projectId, p.winner, minVal, maxVal, avg, n);
+        // the reserve masks the winner to zero when no bid met it
+        if (winner == address(0)) {
+            _setStatus(projectId, Status.NoAward);
+            emit NoAward(projectId, p.numBids);
+            return;
+        }
+        _setStatus(projectId, Status.Awarded);
+        emit WinnerDeclared(projectId, winner, minVal, price, maxVal, avg, p.numBids);
+    }
+
+    /// @dev Cleartexts are packed as one 32-byte word per requested handle
+    function _cleartextAt(bytes memory cleartexts, uint256 index) private pure returns (uint256 word) {
+        require(cleartexts.length >= (index + 1) * 32, "Bad cleartexts");
+        assembly ("memory-safe") {
+            word := mload(add(cleartexts, mul(add(index, 1), 32)))
+        }
+    }
+
+    // ------------------------------------------------------------------------
+    // Bonds
+    // ------------------------------------------------------------------------
+
+    /// @notice Winner confirms they will deliver and takes their bond back
+    function acceptAward(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(p.status == Status.Awarded, "Not ready");
+        require(msg.sender == p.winner, "Only winner");
+        require(!p.awardAccepted, "Already accepted");
+        require(block.timestamp <= p.awardedAt + AWARD_ACCEPT_WINDOW, "Accept window over");
+
+        p.awardAccepted = true;
+        emit AwardAccepted(projectId, msg.sender);
+        if (bonds[projectId][msg.sender] > 0) {
+            _refundBond(projectId, msg.sender);
+        }
+    }
+
+    /// @notice Losing bidders reclaim their bond once the project is settled or cancelled
+    function withdrawBond(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(
+            p.status == Status.Awarded || p.status == Status.NoAward || p.status == Status.Cancelled,
+            "Not ready"
+        );
+        require(msg.sender != p.winner, "Winner must accept award");
+        _refundBond(projectId, msg.sender);
+    }
+
+    /// @notice Creator takes the winner's bond if the award was not accepted in time
+    function claimForfeitedBond(uint256 projectId) external {
+        Project storage p = projects[projectId];
+        require(msg.sender == p.creator, "Only creator");
+        require(p.status == Status.Awarded, "No award");
+        require(!p.awardAccepted, "Award accepted");
+        require(block.timestamp > p.awardedAt + AWARD_ACCEPT_WINDOW, "Accept window open");
+
+        uint256 amount = bonds[projectId][p.winner];
+        require(amount > 0, "No bond");
+        bonds[projectId][p.winner] = 0;
+        emit BondForfeited(projectId, p.winner, amount);
+        _sendValue(p.creator, amount);
+    }
+
+    function _refundBond(uint256 projectId, address bidder) private {
+        uint256 amount = bonds[projectId][bidder];
+        require(amount > 0, "No bond");
+        bonds[projectId][bidder] = 0;
+        emit BondRefunded(projectId, bidder, amount);
+        _sendValue(bidder, amount);
+    }
+
+    function _sendValue(address to, uint256 amount) private {
+        (bool ok, ) = payable(to).call{value: amount}("");
+        require(ok, "Transfer failed");
+    }
+
+    // ------------------------------------------------------------------------
+    // Settlement (see TenderEscrow)
+    // ------------------------------------------------------------------------
+
+    /// @notice Parties of an awarded project and the amount owed, the clearing price in payment token
+    ///         units, for the escrow contract
+    function getAward(uint256 projectId)
+        external
+        view
+        returns (address creator, address winner, address paymentToken, uint256 amount, bool accepted, uint256 awardedAt)
+    {
+        Project storage p = projects[projectId];
+        require(p.status == Status.Awarded, "No award");
+        amount = uint256(p.clearingPricePlain) * uint256(10) ** (p.tokenDecimals - p.decimals);
+        return (p.creator, p.winner, p.paymentToken, amount, p.awardAccepted, p.awardedAt);
+    }
+
+    function _tokenDecimals(address token) private view returns (uint8) {
+        (bool ok, bytes memory ret) = token.staticcall(abi.encodeWithSelector(DECIMALS));
+        require(ok && ret.length >= 32, "Not an ERC-20");
+        uint256 decimals = abi.decode(ret, (uint256));
+        require(decimals <= type(uint8).max, "Not an ERC-20");
+        return uint8(decimals);
+    }
+
+    // ------------------------------------------------------------------------
+    // Paginated listing
+    // ------------------------------------------------------------------------
+
+    /// @notice Summaries of projects [offset, offset + limit) by id, at most MAX_PAGE_SIZE,
+    ///         plus the total number of projects
+    function getProjects(uint256 offset, uint256 limit)
+        external
+        view
+        returns (ProjectSummary[] memory page, uint256 total)
+    {
+        total = nextProjectId;
+        page = new ProjectSummary[](_pageLength(total, offset, limit));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _summary(offset + i);
+        }
+    }
+
+    /// @notice Same as getProjects over the projects created by `creator`
+    function getProjectsByCreator(address creator, uint256 offset, uint256 limit)
+        external
+        view
+        returns (ProjectSummary[] memory page, uint256 total)
+    {
+        uint256[] storage ids = creatorProjects[creator];
+        total = ids.length;
+        page = new ProjectSummary[](_pageLength(total, offset, limit));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _summary(ids[offset + i]);
+        }
+    }
+
+    function _summary(uint256 projectId) private view returns (ProjectSummary memory s) {
+        Project storage p = projects[projectId];
+        s.id = projectId;
+        s.creator = p.creator;
+        s.title = p.title;
+        s.deadline = p.deadline;
+        s.status = getStatus(projectId);
+        s.decimals = p.decimals;
+        s.paymentToken = p.paymentToken;
+        s.numBids = p.numBids;
+        s.bondAmount = p.bondAmount;
+        if (p.status == Status.Awarded) s.winner = p.winner;
+        s.secondPrice = p.secondPrice;
+        s.hasReserve = p.hasReserve;
+        s.restricted = p.restricted;
+        s.scored = projectCriteria[projectId].length > 0;
+    }
+
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) return 0;
+        if (limit > MAX_PAGE_SIZE) limit = MAX_PAGE_SIZE;
+        return total - offset < limit ? total - offset : limit;
     }
 
     // ------------------------------------------------------------------------
     // Getters for plaintext stats
     // ------------------------------------------------------------------------
 
-    /// @notice Get final stats after winner declared
+    /// @notice Get final stats after winner declared (highest / average are 0 unless revealStats)
+    /// @dev numParticipants counts unique bidders since each address holds at most one active bid
     function getPlainStats(uint256 projectId)
         external
         view
         returns (
             uint256 numParticipants,
-            uint32 averageBid,
-            uint32 highestBid,
-            uint32 lowestBid,
-            address winnerAddr
+            uint64 averageBid,
+            uint64 highestBid,
+            uint64 lowestBid,
+            address winnerAddr,
+            uint64 clearingPrice
         )
     {
         Project storage p = projects[projectId];
-        require(p.winnerDeclared, "Not ready");
+        require(p.status == Status.Awarded || p.status == Status.NoAward, "Not ready");
         return (
             p.numBids,
             p.averageBidPlain,
             p.highestBidPlain,
             p.lowestBidPlain,
-            p.winner
+            p.winner,
+            p.clearingPricePlain
         );
     }
 }
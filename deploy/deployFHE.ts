@@ -1,75 +1,11 @@
-// deploy/deploy.ts
-import fs from "fs";
-import path from "path";
-import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
-
-async function ask(prompt: string): Promise<string> {
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-  return new Promise<string>((resolve) =>
-    rl.question(prompt, (ans) => {
-      rl.close();
-      resolve(ans.trim());
-    })
-  );
-}
+// deploy/deployFHE.ts
+// Usage: npx hardhat run deploy/deployFHE.ts --network <hardhat|localhost|sepolia>
+import { deployAndRecord, getEscrowArgs } from "./utils";
 
 async function main() {
-  const privateKey = await ask("Enter the deployer private key (testnet only): ");
-  let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
-  if (!rpc) rpc = "https://sepolia.drpc.org";
-
-  const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
-
-  console.log("Deployer account:", wallet.address);
-
-  // Deploy the plain TenderingFHE contract
-  const TenderingFactory = await hardhatEthers.getContractFactory("TenderingFHE", wallet);
-  const Tendering = await TenderingFactory.deploy();
-  await Tendering.waitForDeployment();
-
-  const deployedAddress = (Tendering as any).target || (Tendering as any).address;
-  console.log("TenderingFHE contract deployed at:", deployedAddress);
-
-  // Write config for the frontend
-  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
-  } else {
-    const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
-      deployer: wallet.address,
-    };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
-
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "TenderingFHE.sol",
-        "TenderingFHE.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "TenderingFHE.json"));
-      console.log("Copied ABI to frontend/web/src/abi/TenderingFHE.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../TenderingFHE.json manually to frontend/web/src/abi/TenderingFHE.json",
-        e
-      );
-    }
-  }
+  // contracts/TenderingFHE.sol defines the contract FHETendering
+  const tendering = await deployAndRecord("FHETendering", "TenderingFHE.sol", "fhe");
+  await deployAndRecord("TenderEscrow", "TenderEscrow.sol", "fheEscrow", await getEscrowArgs(await tendering.getAddress()));
 }
 
 main().catch((e) => {
@@ -0,0 +1,134 @@
+// deploy/utils.ts
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { Wallet, Signer, Contract, keccak256, toUtf8Bytes } from "ethers";
+
+// each tendering contract is deployed with its own TenderEscrow
+export type DeploymentKind = "plain" | "fhe" | "plainEscrow" | "fheEscrow";
+
+export interface DeploymentRecord {
+  kind: DeploymentKind;
+  contractName: string;
+  address: string;
+  chainId: number;
+  blockNumber: number;
+  txHash: string;
+  deployer: string;
+  abiHash: string; // keccak256 of the JSON ABI, lets the frontend spot a stale copy
+  deployedAt: string;
+}
+
+export interface DeploymentRegistry {
+  network: string;
+  chainId: number;
+  contracts: Partial<Record<DeploymentKind, DeploymentRecord>>;
+}
+
+const ROOT_DIR = path.join(__dirname, "..");
+const FRONTEND_ABI_DIR = path.join(ROOT_DIR, "frontend", "web", "src", "abi");
+export const DEPLOYMENTS_DIR = path.join(ROOT_DIR, "deployments");
+
+/**
+ * Resolve the deployer without prompting:
+ * - DEPLOYER_PRIVATE_KEY, or
+ * - DEPLOYER_KEYSTORE (encrypted JSON file) + DEPLOYER_KEYSTORE_PASSWORD, or
+ * - the first account of the network in hardhat.config.ts (e.g. the built-in hardhat accounts)
+ */
+export async function getDeployer(): Promise<Signer> {
+  const { DEPLOYER_PRIVATE_KEY, DEPLOYER_KEYSTORE, DEPLOYER_KEYSTORE_PASSWORD } = process.env;
+
+  if (DEPLOYER_PRIVATE_KEY) {
+    return new Wallet(DEPLOYER_PRIVATE_KEY, ethers.provider);
+  }
+  if (DEPLOYER_KEYSTORE) {
+    if (DEPLOYER_KEYSTORE_PASSWORD === undefined) {
+      throw new Error("DEPLOYER_KEYSTORE is set but DEPLOYER_KEYSTORE_PASSWORD is missing");
+    }
+    const json = fs.readFileSync(DEPLOYER_KEYSTORE, "utf8");
+    const wallet = await Wallet.fromEncryptedJson(json, DEPLOYER_KEYSTORE_PASSWORD);
+    return wallet.connect(ethers.provider);
+  }
+
+  const signers = await ethers.getSigners();
+  if (signers.length === 0) {
+    throw new Error(
+      `No deployer account for network "${network.name}". Set DEPLOYER_PRIVATE_KEY or DEPLOYER_KEYSTORE.`
+    );
+  }
+  return signers[0];
+}
+
+/**
+ * Constructor arguments of the TenderEscrow paired with `tendering`:
+ * - ARBITER_ADDRESS rules on disputes (default: the deployer)
+ * - DISPUTE_BOND is the ETH a claimant locks to open a dispute (default 0.01)
+ */
+export async function getEscrowArgs(tendering: string): Promise<unknown[]> {
+  const arbiter = process.env.ARBITER_ADDRESS || (await (await getDeployer()).getAddress());
+  if (!ethers.isAddress(arbiter)) throw new Error(`ARBITER_ADDRESS is not an address: ${arbiter}`);
+  const bond = ethers.parseEther(process.env.DISPUTE_BOND ?? "0.01");
+  console.log(`Escrow arbiter: ${arbiter}, dispute bond: ${ethers.formatEther(bond)} ETH`);
+  return [tendering, arbiter, bond];
+}
+
+/** Deploy `contractName` and record it under `kind` in deployments/<network>.json */
+export async function deployAndRecord(contractName: string, sourceFile: string, kind: DeploymentKind, args: unknown[] = []) {
+  const deployer = await getDeployer();
+  const deployerAddress = await deployer.getAddress();
+  console.log(`Network: ${network.name}`);
+  console.log("Deployer account:", deployerAddress);
+
+  const factory = await ethers.getContractFactory(contractName, deployer);
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+
+  const address = await contract.getAddress();
+  const receipt = await contract.deploymentTransaction()!.wait();
+  const { chainId } = await ethers.provider.getNetwork();
+  console.log(`${contractName} contract deployed at:`, address);
+
+  const artifactPath = path.join(ROOT_DIR, "artifacts", "contracts", sourceFile, `${contractName}.json`);
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+
+  const record: DeploymentRecord = {
+    kind,
+    contractName,
+    address,
+    chainId: Number(chainId),
+    blockNumber: receipt!.blockNumber,
+    txHash: receipt!.hash,
+    deployer: deployerAddress,
+    abiHash: keccak256(toUtf8Bytes(JSON.stringify(artifact.abi))),
+    deployedAt: new Date().toISOString(),
+  };
+  writeRegistry(record);
+  copyAbiToFrontend(artifactPath, contractName);
+
+  return contract as unknown as Contract;
+}
+
+function writeRegistry(record: DeploymentRecord) {
+  const registryPath = path.join(DEPLOYMENTS_DIR, `${network.name}.json`);
+  const registry: DeploymentRegistry = fs.existsSync(registryPath)
+    ? JSON.parse(fs.readFileSync(registryPath, "utf8"))
+    : { network: network.name, chainId: record.chainId, contracts: {} };
+
+  // one record per kind, so deploying FHETendering never touches the plaintext entry
+  registry.chainId = record.chainId;
+  registry.contracts[record.kind] = record;
+
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2) + "\n");
+  console.log(`Recorded ${record.kind} deployment in deployments/${network.name}.json`);
+}
+
+function copyAbiToFrontend(artifactPath: string, contractName: string) {
+  if (!fs.existsSync(path.dirname(FRONTEND_ABI_DIR))) {
+    console.warn("Frontend src directory not found, skipping ABI copy:", path.dirname(FRONTEND_ABI_DIR));
+    return;
+  }
+  if (!fs.existsSync(FRONTEND_ABI_DIR)) fs.mkdirSync(FRONTEND_ABI_DIR, { recursive: true });
+  fs.copyFileSync(artifactPath, path.join(FRONTEND_ABI_DIR, `${contractName}.json`));
+  console.log(`Copied ABI to frontend/web/src/abi/${contractName}.json`);
+}
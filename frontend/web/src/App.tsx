@@ -1,11 +1,78 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
-import { getContractReadOnly, normAddr, ABI, config } from "./contract";
-import { FaClock, FaTrophy, FaMoneyBillWave, FaChartLine, FaList, FaPlus, FaLock, FaLockOpen, FaEye, FaEyeSlash } from "react-icons/fa";
+import React, { useEffect, useRef, useState } from "react";
+import { getContractReadOnly, getContractAddress, getEscrowAddress, getEscrowReadOnly, normAddr, parseAddressList, ABI, ESCROW_ABI, ProjectStatus } from "./contract";
+import { encryptBid, encryptScoredBid, isValidBidAmount, supportsFhe, userDecryptValue, userDecryptValues } from "./fhe";
+import { DEFAULT_CHAIN_ID, NETWORKS, getNetwork } from "./networks";
+import { Link, matchProjectPath, navigate, projectPath, usePathname } from "./router";
+import { bidderState, effectiveStatus, getProjectHistory, isQualified, syncProjects, watchProjects, type Criterion, type HistoryEntry } from "./projectIndex";
+import { ERC20_ABI, getTokenBalance, getTokenInfo, isNativeToken, NATIVE_TOKEN, type TokenInfo } from "./tokens";
+import { FaClock, FaTrophy, FaMoneyBillWave, FaChartLine, FaList, FaPlus, FaLock, FaLockOpen, FaEye, FaEyeSlash, FaGavel } from "react-icons/fa";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
 import { ethers } from "ethers";
 
+// one getProjects call per page
+const PAGE_SIZE = 12;
+
+// tabs filtered by status; the contract pages every project, so these are paged over the index
+const statusTabs: Record<string, (status: ProjectStatus) => boolean> = {
+  active: status => status === ProjectStatus.Open,
+  completed: status => status === ProjectStatus.Awarded || status === ProjectStatus.NoAward,
+};
+
+const pageButtonStyle = (disabled: boolean): React.CSSProperties => ({
+  padding: "8px 16px",
+  borderRadius: 8,
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  background: "transparent",
+  color: "white",
+  cursor: disabled ? "not-allowed" : "pointer",
+  opacity: disabled ? 0.4 : 1
+});
+
+const STATUS_BADGES: Record<ProjectStatus, { label: string; color: string }> = {
+  [ProjectStatus.Draft]: { label: "DRAFT", color: "#9c27b0" },
+  [ProjectStatus.Open]: { label: "ACTIVE", color: "#2196f3" },
+  [ProjectStatus.Closed]: { label: "CLOSED", color: "#9e9e9e" },
+  [ProjectStatus.Decrypting]: { label: "DECRYPTING", color: "#ffc107" },
+  [ProjectStatus.Awarded]: { label: "COMPLETED", color: "#4caf50" },
+  [ProjectStatus.Cancelled]: { label: "CANCELLED", color: "#f44336" },
+  [ProjectStatus.NoAward]: { label: "NO AWARD", color: "#ff9800" },
+};
+
+interface Project {
+  id: number;
+  creator: string;
+  title: string;
+  description: string;
+  deadline: number;
+  status: ProjectStatus;
+  secondPrice: boolean;
+  revealStats: boolean;
+  liveStats: boolean;
+  hasReserve: boolean;
+  restricted: boolean;
+  qualified: boolean;
+  winner: string;
+  decimals: number;
+  lowestBid: bigint;
+  clearingPrice: bigint;
+  highestBid: bigint;
+  numBids: number;
+  averageBid: bigint;
+  bondAmount: bigint;
+  awardedAt: number;
+  awardAccepted: boolean;
+  decryptionRequestedAt: number;
+  paymentToken: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  myBond: bigint;
+  hasMyBid: boolean;
+  priceWeight: number;
+  criteria: Criterion[];
+}
+
 export default function App() {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
@@ -14,29 +81,50 @@ export default function App() {
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+  const [walletProvider, setWalletProvider] = useState<any>(null);
+  // the wallet's chain once connected; selects the RPCs and contract addresses from NETWORKS
+  const [chainId, setChainId] = useState(DEFAULT_CHAIN_ID);
+  const network = getNetwork(chainId);
+  const contractAddress = getContractAddress(chainId);
   const [biddingProjectId, setBiddingProjectId] = useState<number | null>(null);
   const [biddingAmount, setBiddingAmount] = useState("");
+  const [biddingCriteria, setBiddingCriteria] = useState<string[]>([]);
+  const [bidding, setBidding] = useState(false);
   const [activeTab, setActiveTab] = useState("all");
-  const [expandedProject, setExpandedProject] = useState<number | null>(null);
-
-  interface Project {
-    id: number;
-    creator: string;
-    title: string;
-    description: string;
-    deadline: number;
-    terminated: boolean;
-    winnerDeclared: boolean;
-    winner: string;
-    lowestBid: number;
-    highestBid: number;
-    numBids: number;
-    averageBid: number;
-  }
+  const [page, setPage] = useState(0);
+  const [pageIds, setPageIds] = useState<number[]>([]);
+  const [pageTotal, setPageTotal] = useState(0);
+  const pathname = usePathname();
+  // projects changed by contract events since the user last looked at them
+  const [activityIds, setActivityIds] = useState<number[]>([]);
+  const [acceptWindow, setAcceptWindow] = useState(0);
+  const [decryptionTimeout, setDecryptionTimeout] = useState(0);
+  // bumped after each escrow transaction so the escrow and dispute panels reload together
+  const [escrowVersion, setEscrowVersion] = useState(0);
+  // distinct addresses with an active bid on any project, as the contract counts bids
+  const [totalParticipants, setTotalParticipants] = useState(0);
+  // bids decrypted for their own bidder, cleared whenever the account changes
+  const [myBids, setMyBids] = useState<Record<number, bigint>>({});
+  const [decryptingBidId, setDecryptingBidId] = useState<number | null>(null);
+  const [liveStats, setLiveStats] = useState<Record<number, { lowest: bigint; highest: bigint; average: bigint }>>({});
+  const [decryptingStatsId, setDecryptingStatsId] = useState<number | null>(null);
 
+  // bond balances and decrypted bids depend on the connected account and chain
   useEffect(() => {
+    setMyBids({});
+    setLiveStats({});
+    setProjects([]);
+    setLoading(true);
     loadProjects().finally(() => setLoading(false));
-  }, []);
+  }, [account, chainId]);
+
+  useEffect(() => {
+    loadPage();
+  }, [account, chainId, activeTab, page]);
+
+  const dismissActivity = (projectId: number) => {
+    setActivityIds(prev => prev.filter(id => id !== projectId));
+  };
 
   const checkIsCreator = (addr: string, projectCreator: string) => {
     return normAddr(addr) === normAddr(projectCreator);
@@ -47,14 +135,21 @@ export default function App() {
     try {
       const web3Provider = new ethers.BrowserProvider(wallet.provider);
       setProvider(web3Provider);
+      setWalletProvider(wallet.provider);
       const accounts = await web3Provider.send("eth_requestAccounts", []);
       const acc = accounts[0] || "";
+      setChainId(Number((await web3Provider.getNetwork()).chainId));
       setAccount(acc);
 
       wallet.provider.on("accountsChanged", async (accounts: string[]) => {
         const newAcc = accounts[0] || "";
         setAccount(newAcc);
       });
+      // a BrowserProvider is bound to the chain it first saw, so replace it on switch
+      wallet.provider.on("chainChanged", (hexChainId: string) => {
+        setProvider(new ethers.BrowserProvider(wallet.provider));
+        setChainId(Number(hexChainId));
+      });
     } catch (e) {
       console.error("Failed to connect wallet", e);
       alert("Failed to connect wallet: " + e);
@@ -65,48 +160,84 @@ export default function App() {
   const onDisconnect = () => {
     setAccount("");
     setProvider(null);
+    setWalletProvider(null);
+    setChainId(DEFAULT_CHAIN_ID);
+    if (activeTab === "mine") setActiveTab("all");
+  };
+
+  const switchNetwork = async (targetChainId: number) => {
+    if (!walletProvider) return;
+    try {
+      await walletProvider.request({
+        method: "wallet_switchEthereumChain",
+        params: [{ chainId: ethers.toQuantity(targetChainId) }],
+      });
+    } catch (e: any) {
+      alert("Failed to switch network: " + (e?.message || e));
+    }
   };
 
   // ----------------- Load Projects -----------------
   const loadProjects = async () => {
     try {
-      const contract = await getContractReadOnly();
+      const contract = await getContractReadOnly(chainId);
       if (!contract) return;
-      
-      const nextId = Number(await contract.nextProjectId());
-      const list: Project[] = [];
-      
-      for (let i = 0; i < nextId; i++) {
-        try {
-          const pRaw = await contract.projects(i);
-          const stats = await contract.getProjectStats(i);
-          
-          list.push({
-            id: i,
-            creator: pRaw.creator,
-            title: pRaw.title,
-            description: pRaw.description,
-            deadline: Number(pRaw.deadline),
-            terminated: pRaw.terminated,
-            winnerDeclared: pRaw.winnerDeclared,
-            winner: pRaw.winner,
-            lowestBid: Number(pRaw.lowestBid),
-            highestBid: Number(pRaw.highestBid),
-            numBids: Number(stats[0]),
-            averageBid: Number(stats[1]),
-          });
-        } catch (e) {
-          console.warn(`Failed to load project ${i}`, e);
-        }
-      }
-      
-      setProjects(list);
+
+      // plaintext stats stay zero until the winner has been decrypted
+      const [indexed, window_, timeout] = await Promise.all([
+        syncProjects(chainId),
+        contract.AWARD_ACCEPT_WINDOW(),
+        contract.DECRYPTION_TIMEOUT(),
+        loadPage(),
+      ]);
+      setAcceptWindow(Number(window_));
+      setDecryptionTimeout(Number(timeout));
+      setTotalParticipants(new Set(indexed.flatMap(p => Object.entries(p.bidders).filter(([, b]) => b.active).map(([bidder]) => bidder))).size);
+      const tokens = [...new Set(indexed.map(p => p.paymentToken))];
+      const tokenInfos = await Promise.all(tokens.map(token => getTokenInfo(chainId, token).catch(() => null)));
+      setProjects(indexed.map(p => ({
+        ...p,
+        tokenSymbol: tokenInfos[tokens.indexOf(p.paymentToken)]?.symbol ?? "tokens",
+        status: effectiveStatus(p),
+        qualified: isQualified(p, account),
+        myBond: account ? bidderState(p, account).bond : 0n,
+        hasMyBid: account ? bidderState(p, account).active : false,
+      })));
     } catch (e) {
       console.error("Failed to load projects", e);
     }
   };
 
-  const createProject = async (title: string, description: string, deadline: number) => {
+  // the visible page comes from the contract's paged summaries; cards are filled from the project index
+  const loadPage = async () => {
+    if (statusTabs[activeTab]) return;
+    try {
+      const contract = await getContractReadOnly(chainId);
+      if (!contract) return;
+      const [summaries, total] = activeTab === "mine" && account
+        ? await contract.getProjectsByCreator(account, page * PAGE_SIZE, PAGE_SIZE)
+        : await contract.getProjects(page * PAGE_SIZE, PAGE_SIZE);
+      setPageIds(summaries.map((s: any) => Number(s.id)));
+      setPageTotal(Number(total));
+    } catch (e) {
+      console.error("Failed to load project page", e);
+    }
+  };
+
+  // the watcher outlives renders, so it reloads through a ref to the latest loadProjects
+  const loadProjectsRef = useRef(loadProjects);
+  loadProjectsRef.current = loadProjects;
+
+  // other users' projects, bids and awards show up without a manual reload
+  useEffect(() => {
+    setActivityIds([]);
+    return watchProjects(chainId, ids => {
+      setActivityIds(prev => [...new Set([...prev, ...ids])]);
+      loadProjectsRef.current();
+    });
+  }, [chainId]);
+
+  const createProject = async (title: string, description: string, deadline: number, options: ProjectOptions) => {
     if (!title || !description) { 
       alert("Please enter title and description"); 
       return; 
@@ -119,11 +250,55 @@ export default function App() {
     setCreating(true);
     try {
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-      const tx = await contract.createProject(title, description, deadline);
-      await tx.wait();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      // projects that need setup transactions stay in Draft until they are complete
+      const needsSetup = !!options.reserve || options.liveStats
+        || (options.restricted && (options.allowlist.length > 0 || !!options.allowlistRoot));
+      const tx = await contract.createProject(
+        title,
+        description,
+        deadline,
+        options.decimals,
+        options.paymentToken,
+        options.secondPrice,
+        options.revealStats,
+        ethers.parseEther(options.bond || "0"),
+        options.priceWeight,
+        options.criteria,
+        options.restricted,
+        needsSetup
+      );
+      const receipt = await tx.wait();
+      const created = receipt.logs
+        .map((log: any) => { try { return contract.interface.parseLog(log); } catch { return null; } })
+        .find((ev: any) => ev?.name === "ProjectCreated");
+      const projectId = created.args.projectId;
+      if (options.reserve) {
+        // the ceiling is encrypted in the browser and must be set before anyone bids
+        const { handle, inputProof } = await encryptBid(contractAddress, await signer.getAddress(), ethers.parseUnits(options.reserve, options.decimals), walletProvider);
+        const reserveTx = await contract.setReservePrice(projectId, handle, inputProof);
+        await reserveTx.wait();
+      }
+      if (options.liveStats) {
+        const liveTx = await contract.enableLiveStats(projectId);
+        await liveTx.wait();
+      }
+      if (options.restricted && options.allowlist.length > 0) {
+        const allowTx = await contract.addToAllowlist(projectId, options.allowlist);
+        await allowTx.wait();
+      }
+      if (options.restricted && options.allowlistRoot) {
+        const rootTx = await contract.setAllowlistRoot(projectId, options.allowlistRoot);
+        await rootTx.wait();
+      }
+      if (needsSetup) {
+        const openTx = await contract.openProject(projectId);
+        await openTx.wait();
+      }
       setShowCreateModal(false);
       await loadProjects();
+      // land on the new project's page so its link can be shared right away
+      navigate(projectPath(Number(projectId)));
       alert("Project created successfully!");
     } catch (e: any) {
       alert("Creation failed: " + (e?.message || e));
@@ -132,24 +307,158 @@ export default function App() {
     }
   };
 
-  const placeBid = async (projectId: number, amount: number) => {
+  const placeBid = async (project: Project, amountInput: string, criteriaValues: number[]) => {
     if (!provider) { 
       alert("Please connect wallet first"); 
       return; 
     }
+    const amount = parseAmount(amountInput, project.decimals);
+    if (amount === null || !isValidBidAmount(amount)) {
+      alert(`Please enter a positive bid amount with at most ${project.decimals} decimal places`);
+      return;
+    }
     
+    setBidding(true);
     try {
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-      const tx = await contract.placeBid(projectId, amount);
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const userAddress = await signer.getAddress();
+      // the amount never leaves the browser in plaintext
+      // one active bid per address: a second submission revises the first
+      let tx;
+      if (project.criteria.length > 0) {
+        const { handle, valueHandles, inputProof } = await encryptScoredBid(contractAddress, userAddress, amount, criteriaValues, walletProvider);
+        tx = project.hasMyBid
+          ? await contract.updateScoredBid(project.id, handle, valueHandles, inputProof)
+          : await contract.placeScoredBid(project.id, handle, valueHandles, inputProof, { value: project.bondAmount });
+      } else {
+        const { handle, inputProof } = await encryptBid(contractAddress, userAddress, amount, walletProvider);
+        tx = project.hasMyBid
+          ? await contract.updateEncryptedBid(project.id, handle, inputProof)
+          : await contract.placeEncryptedBid(project.id, handle, inputProof, { value: project.bondAmount });
+      }
       await tx.wait();
       setBiddingProjectId(null);
       setBiddingAmount("");
+      setMyBids(({ [project.id]: _stale, ...rest }) => rest);
+      setBiddingCriteria([]);
       await loadProjects();
-      alert("Bid placed successfully!");
+      alert(project.hasMyBid ? "Encrypted bid updated successfully!" : "Encrypted bid placed successfully!");
     } catch (e: any) {
       console.error("Bid failed", e);
       alert("Bid failed: " + (e?.message || e));
+    } finally {
+      setBidding(false);
+    }
+  };
+
+  const viewMyBid = async (projectId: number) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    setDecryptingBidId(projectId);
+    try {
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const handle: string = await contract.getBidHandle(projectId, await signer.getAddress());
+      const amount = await userDecryptValue(contractAddress, handle, signer, walletProvider);
+      setMyBids(prev => ({ ...prev, [projectId]: amount }));
+    } catch (e: any) {
+      console.error("Decrypting bid failed", e);
+      alert("Could not decrypt your bid: " + (e?.message || e));
+    } finally {
+      setDecryptingBidId(null);
+    }
+  };
+
+  const viewLiveStats = async (project: Project) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    setDecryptingStatsId(project.id);
+    try {
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const handles = await contract.getLiveStatsHandles(project.id);
+      const [lowest, highest, sum] = await userDecryptValues(contractAddress, [...handles], signer, walletProvider);
+      setLiveStats(prev => ({
+        ...prev,
+        [project.id]: { lowest, highest, average: project.numBids > 0 ? sum / BigInt(project.numBids) : 0n }
+      }));
+    } catch (e: any) {
+      console.error("Decrypting live stats failed", e);
+      alert("Could not decrypt live stats: " + (e?.message || e));
+    } finally {
+      setDecryptingStatsId(null);
+    }
+  };
+
+  const withdrawBid = async (projectId: number) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    if (!window.confirm("Withdraw your bid? Any bond will be returned.")) {
+      return;
+    }
+    
+    try {
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const tx = await contract.withdrawEncryptedBid(projectId);
+      await tx.wait();
+      await loadProjects();
+      alert("Bid withdrawn!");
+    } catch (e: any) {
+      console.error("Withdrawal failed", e);
+      alert("Withdrawal failed: " + (e?.message || e));
+    }
+  };
+
+  const openProject = async (projectId: number) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    try {
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const tx = await contract.openProject(projectId);
+      await tx.wait();
+      await loadProjects();
+      alert("Project is open for bidding!");
+    } catch (e: any) {
+      console.error("Opening failed", e);
+      alert("Opening failed: " + (e?.message || e));
+    }
+  };
+
+  const cancelProject = async (projectId: number) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    if (!window.confirm("Cancel this project? Nobody will be awarded and bidders can reclaim their bonds.")) {
+      return;
+    }
+    
+    try {
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const tx = await contract.cancelProject(projectId);
+      await tx.wait();
+      await loadProjects();
+      alert("Project cancelled!");
+    } catch (e: any) {
+      console.error("Cancellation failed", e);
+      alert("Cancellation failed: " + (e?.message || e));
     }
   };
 
@@ -159,30 +468,199 @@ export default function App() {
       return; 
     }
     
-    if (!window.confirm("Are you sure you want to terminate this project? This will reveal the winner and prevent any further bids.")) {
+    if (!window.confirm("Are you sure you want to terminate this project? This will prevent any further bids.")) {
       return;
     }
     
     try {
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
       const tx = await contract.terminateProject(projectId);
       await tx.wait();
       await loadProjects();
-      alert("Project terminated and winner revealed!");
+      alert("Project terminated! Reveal the winner to decrypt the results.");
     } catch (e: any) {
       console.error("Termination failed", e);
       alert("Termination failed: " + (e?.message || e));
     }
   };
 
+  const declareWinner = async (projectId: number) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    try {
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      // fold the bids into the encrypted winner first; the contract caps each call at one FHE batch
+      let [folded, total] = await contract.finalizeProgress(projectId);
+      while (folded < total) {
+        await (await contract.finalizeStats(projectId, total - folded)).wait();
+        [folded, total] = await contract.finalizeProgress(projectId);
+      }
+      const tx = await contract.declareWinner(projectId);
+      await tx.wait();
+      await loadProjects();
+      alert("Decryption requested! The winner will be revealed once the relayer responds.");
+    } catch (e: any) {
+      console.error("Reveal failed", e);
+      alert("Reveal failed: " + (e?.message || e));
+    }
+  };
+
+  const qualifyWithProof = async (projectId: number) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    const input = window.prompt("This tender is restricted to prequalified suppliers.\nPaste your Merkle proof (hashes separated by commas):");
+    if (!input) return;
+    
+    try {
+      const proof = input.split(/[\s,]+/).filter(Boolean);
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const tx = await contract.qualifyWithProof(projectId, proof);
+      await tx.wait();
+      await loadProjects();
+      alert("You are prequalified and can now bid!");
+    } catch (e: any) {
+      console.error("Prequalification failed", e);
+      alert("Prequalification failed: " + (e?.message || e));
+    }
+  };
+
+  const updateAllowlist = async (projectId: number, action: "addToAllowlist" | "removeFromAllowlist") => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    const input = window.prompt(action === "addToAllowlist"
+      ? "Supplier addresses to prequalify (separated by commas or new lines):"
+      : "Supplier addresses to remove (bids already placed stay valid):");
+    if (!input) return;
+    
+    try {
+      const addresses = parseAddressList(input);
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const tx = await contract[action](projectId, addresses);
+      await tx.wait();
+      await loadProjects();
+      alert("Allowlist updated!");
+    } catch (e: any) {
+      console.error(`${action} failed`, e);
+      alert("Allowlist update failed: " + (e?.message || e));
+    }
+  };
+
+  const bondAction = async (projectId: number, action: "acceptAward" | "withdrawBond" | "claimForfeitedBond", successMessage: string) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    try {
+      const signer = await provider.getSigner();
+      const contract = new ethers.Contract(contractAddress, ABI, signer);
+      const tx = await contract[action](projectId);
+      await tx.wait();
+      await loadProjects();
+      alert(successMessage);
+    } catch (e: any) {
+      console.error(`${action} failed`, e);
+      alert("Transaction failed: " + (e?.message || e));
+    }
+  };
+
+  // the escrow pulls ERC-20 payments, so it needs an allowance first
+  const fundEscrow = async (project: Project, descriptions: string[], amounts: bigint[]) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return false; 
+    }
+    
+    try {
+      const signer = await provider.getSigner();
+      const escrowAddress = getEscrowAddress(chainId);
+      const escrow = new ethers.Contract(escrowAddress, ESCROW_ABI, signer);
+      const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+      let tx;
+      if (isNativeToken(project.paymentToken)) {
+        tx = await escrow.fundEscrow(project.id, descriptions, amounts, { value: total });
+      } else {
+        const token = new ethers.Contract(project.paymentToken, ERC20_ABI, signer);
+        const allowance: bigint = await token.allowance(await signer.getAddress(), escrowAddress);
+        if (allowance < total) {
+          const approveTx = await token.approve(escrowAddress, total);
+          await approveTx.wait();
+        }
+        tx = await escrow.fundEscrow(project.id, descriptions, amounts);
+      }
+      await tx.wait();
+      setEscrowVersion(v => v + 1);
+      alert("Payment escrowed! Each milestone is paid when you approve it.");
+      return true;
+    } catch (e: any) {
+      console.error("Funding escrow failed", e);
+      alert("Funding escrow failed: " + (e?.message || e));
+      return false;
+    }
+  };
+
+  const escrowAction = async (
+    projectId: number,
+    action: EscrowAction,
+    args: unknown[],
+    successMessage: string,
+    value = 0n
+  ) => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return false; 
+    }
+    
+    try {
+      const signer = await provider.getSigner();
+      const escrow = new ethers.Contract(getEscrowAddress(chainId), ESCROW_ABI, signer);
+      const tx = await escrow[action](projectId, ...args, { value });
+      await tx.wait();
+      setEscrowVersion(v => v + 1);
+      alert(successMessage);
+      return true;
+    } catch (e: any) {
+      console.error(`${action} failed`, e);
+      alert("Transaction failed: " + (e?.message || e));
+      return false;
+    }
+  };
+
   const getWinnerInfo = async (projectId: number) => {
     try {
-      const contract = await getContractReadOnly();
+      const contract = await getContractReadOnly(chainId);
       if (!contract) return;
       
-      const winnerInfo = await contract.getWinner(projectId);
-      alert(`Winner: ${winnerInfo[0]}\nWinning Bid: ${winnerInfo[1]} ETH`);
+      const [pRaw, stats] = await Promise.all([contract.projects(projectId), contract.getPlainStats(projectId)]);
+      // losing bids are never decrypted; max / average only exist when the creator opted in
+      const decimals = Number(pRaw.decimals);
+      const { symbol } = await getTokenInfo(chainId, pRaw.paymentToken);
+      const aggregates = pRaw.revealStats
+        ? `\nAverage Bid: ${formatAmount(stats.averageBid, decimals, symbol)}\nHighest Bid: ${formatAmount(stats.highestBid, decimals, symbol)}`
+        : "\nOther bids remain confidential";
+      if (Number(pRaw.status) === ProjectStatus.NoAward) {
+        const reason = stats.numParticipants === 0n ? "no bids were placed" : "no bid was at or below the reserve price";
+        alert(`No award: ${reason}${aggregates}\nParticipants: ${stats.numParticipants}`);
+        return;
+      }
+      // a second-price award with rivals only reveals the amount paid
+      const winningBid = pRaw.secondPrice && stats.numParticipants > 1n
+        ? "Confidential (second-price)"
+        : formatAmount(stats.lowestBid, decimals, symbol);
+      alert(`Winner: ${stats.winnerAddr}\nWinning Bid: ${winningBid}\nAmount Paid: ${formatAmount(stats.clearingPrice, decimals, symbol)}${aggregates}\nParticipants: ${stats.numParticipants}`);
     } catch (e: any) {
       alert("Failed to get winner info: " + (e?.message || e));
     }
@@ -202,77 +680,668 @@ export default function App() {
     </div>
   );
 
-  // Filter projects based on active tab
-  const filteredProjects = projects.filter(project => {
-    if (activeTab === "all") return true;
-    if (activeTab === "active") return !project.terminated && project.deadline * 1000 > Date.now();
-    if (activeTab === "completed") return project.terminated || project.winnerDeclared;
-    return true;
-  });
+  // Filter the current page based on active tab
+  const tabFilter = statusTabs[activeTab];
+  // index order matches the contract's, oldest project first
+  const tabProjects = tabFilter ? projects.filter(project => tabFilter(project.status)) : [];
+  const pageCount = Math.max(1, Math.ceil((tabFilter ? tabProjects.length : pageTotal) / PAGE_SIZE));
+  const filteredProjects = tabFilter
+    ? tabProjects.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+    : projects.filter(project => pageIds.includes(project.id));
+
+  // /project/:id shows one project; any other path shows the list
+  const routeProjectId = matchProjectPath(pathname);
+  const routeProject = routeProjectId === null ? undefined : projects.find(p => p.id === routeProjectId);
 
   // ----------------- Aggregate Stats -----------------
   const totalProjects = projects.length;
-  const totalBids = projects.reduce((sum, p) => sum + p.numBids, 0);
-  const activeProjects = projects.filter(p => !p.terminated && p.deadline * 1000 > Date.now()).length;
-
-  return (
-    <div style={{ 
-      fontFamily: "'Poppins', sans-serif", 
-      minHeight: "100vh", 
-      padding: 0, 
-      background: "linear-gradient(135deg, #0f0c29 0%, #302b63 50%, #24243e 100%)",
-      color: "#fff",
-      position: "relative",
-      overflowX: "hidden"
-    }}>
-      {/* Animated background elements */}
-      <div className="bg-bubbles">
-        {[...Array(10)].map((_, i) => <div key={i} className="bubble"></div>)}
-      </div>
+  const activeProjects = projects.filter(p => p.status === ProjectStatus.Open).length;
 
-      {/* Navbar */}
-      <header style={{ 
-        display: "flex", 
-        justifyContent: "space-between", 
-        marginBottom: 32, 
-        alignItems: "center",
-        backdropFilter: "blur(10px)",
-        background: "rgba(255, 255, 255, 0.05)",
-        padding: "16px 5%",
-        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
-        position: "sticky",
-        top: 0,
-        zIndex: 100
-      }}>
-        <h1 style={{ 
-          fontSize: 28, 
-          fontWeight: "700", 
-          margin: 0, 
-          background: "linear-gradient(45deg, #8A2BE2, #00BFFF)", 
-          backgroundClip: "text", 
-          WebkitBackgroundClip: "text", 
-          color: "transparent",
-          display: "flex",
-          alignItems: "center",
-          gap: 10
-        }}>
+  // Card with the project's status, tags and actions; the detail page shows it with the full description
+  const renderProjectCard = (project: Project, detailed = false) => {
+    const isCreator = account && checkIsCreator(account, project.creator);
+    const isDraft = project.status === ProjectStatus.Draft;
+    const isActive = project.status === ProjectStatus.Open;
+    const isCompleted = project.status === ProjectStatus.Awarded || project.status === ProjectStatus.NoAward;
+    // a decryption the oracle never answered can be requested again after the timeout
+    const canReveal = project.status === ProjectStatus.Closed || (
+      project.status === ProjectStatus.Decrypting &&
+      Date.now() > (project.decryptionRequestedAt + decryptionTimeout) * 1000
+    );
+    const isWinner = account && project.status === ProjectStatus.Awarded && normAddr(account) === normAddr(project.winner);
+    const acceptOpen = Date.now() <= (project.awardedAt + acceptWindow) * 1000;
+    const canAccept = isWinner && !project.awardAccepted && acceptOpen;
+    const canWithdrawBond = (isCompleted || project.status === ProjectStatus.Cancelled) && !isWinner && project.myBond > 0n;
+    const canClaimForfeit = isCreator && project.status === ProjectStatus.Awarded && !project.awardAccepted && !acceptOpen
+      && project.winner !== ethers.ZeroAddress && project.bondAmount > 0n;
+    
+    return (
+      <div key={project.id} className="project-card">
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 16 }}>
+          <h3 style={{ marginTop: 0, marginBottom: 8, fontSize: 18 }}>
+            <Link to={projectPath(project.id)} style={{ color: "inherit", textDecoration: "none" }}>{project.title}</Link>
+            {activityIds.includes(project.id) && (
+              <span
+                onClick={() => dismissActivity(project.id)}
+                title="Dismiss"
+                style={{
+                  marginLeft: 8,
+                  padding: "2px 6px",
+                  borderRadius: 4,
+                  fontSize: 10,
+                  fontWeight: "600",
+                  verticalAlign: "middle",
+                  background: "rgba(0, 191, 255, 0.2)",
+                  color: "#00BFFF",
+                  cursor: "pointer"
+                }}
+              >
+                ● New activity
+              </span>
+            )}
+          </h3>
           <div style={{ 
-            width: 12, 
-            height: 12, 
-            borderRadius: "50%", 
-            background: "linear-gradient(45deg, #8A2BE2, #00BFFF)",
-            boxShadow: "0 0 10px rgba(138, 43, 226, 0.5)"
-          }}></div>
-          Zama FHE Tender
+            padding: "4px 8px", 
+            borderRadius: 4, 
+            fontSize: "12px", 
+            fontWeight: "bold",
+            background: `${STATUS_BADGES[project.status].color}33`,
+            color: STATUS_BADGES[project.status].color
+          }}>
+            {STATUS_BADGES[project.status].label}
+          </div>
+        </div>
+        
+        <p style={{
+          marginTop: 0,
+          marginBottom: 16,
+          opacity: 0.9,
+          fontSize: 14,
+          whiteSpace: "pre-wrap",
+          ...(detailed ? {} : { display: "-webkit-box", WebkitLineClamp: 3, WebkitBoxOrient: "vertical", overflow: "hidden" })
+        }}>{project.description}</p>
+        
+        <div style={{ display: "flex", gap: 16, fontSize: 14, opacity: 0.9, marginBottom: 16, flexWrap: "wrap" }}>
+          <span style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            <FaClock size={14} /> Deadline: {new Date(project.deadline * 1000).toLocaleString()}
+          </span>
+          <span>Participants: {project.numBids}</span>
+          {project.bondAmount > 0n && <span>Bond: {ethers.formatEther(project.bondAmount)} ETH</span>}
+          {project.criteria.length > 0 && (
+            <span>
+              Scored: price in {project.tokenSymbol} ×{project.priceWeight}
+              {project.criteria.map(c => `, ${c.name} ×${c.weight}${c.higherIsBetter ? ` (more is better, up to ${c.cap})` : ""}`).join("")}
+            </span>
+          )}
+          {project.secondPrice && <span>Second-price</span>}
+          {project.hasReserve && <span>Reserve price</span>}
+          {project.restricted && <span>Prequalified suppliers only</span>}
+        </div>
+        
+        {isCompleted && (
           <div style={{ 
-            width: 12, 
-            height: 12, 
-            borderRadius: "50%", 
-            background: "linear-gradient(45deg, #00BFFF, #8A2BE2)",
+            padding: "12px", 
+            marginBottom: 16, 
+            borderRadius: 8, 
+            background: "rgba(76, 175, 80, 0.1)",
+            border: "1px solid rgba(76, 175, 80, 0.2)",
+            display: "flex",
+            alignItems: "center",
+            gap: 8
+          }}>
+            <FaTrophy color="#4caf50" />
+            {project.status === ProjectStatus.NoAward ? (
+              <span>{project.numBids === 0 ? "No bids were placed" : "No bid met the reserve price"}</span>
+            ) : (
+              <>
+                <span>Winner: {shortAddr(project.winner)}</span>
+                <span style={{marginLeft: "auto"}}>{formatAmount(project.clearingPrice, project.decimals, project.tokenSymbol)}</span>
+              </>
+            )}
+            <button 
+              onClick={() => getWinnerInfo(project.id)}
+              style={{
+                padding: "4px 8px",
+                background: "transparent",
+                color: "#4caf50",
+                border: "1px solid #4caf50",
+                borderRadius: 4,
+                fontSize: "12px",
+                cursor: "pointer"
+              }}
+            >
+              Details
+            </button>
+          </div>
+        )}
+        
+        {isActive && (
+          <div style={{ 
+            padding: "12px", 
+            marginBottom: 16, 
+            borderRadius: 8, 
+            background: "rgba(33, 150, 243, 0.1)",
+            border: "1px solid rgba(33, 150, 243, 0.2)",
+            display: "flex",
+            alignItems: "center",
+            gap: 8
+          }}>
+            <FaEyeSlash size={14} color="#2196f3" />
+            <span>Bids are encrypted and will only be revealed after completion</span>
+          </div>
+        )}
+        
+        {project.liveStats && !isCreator && (isDraft || isActive) && (
+          <div style={{ 
+            padding: "12px", 
+            marginBottom: 16, 
+            borderRadius: 8, 
+            background: "rgba(255, 152, 0, 0.1)",
+            border: "1px solid rgba(255, 152, 0, 0.2)",
+            display: "flex",
+            alignItems: "center",
+            gap: 8
+          }}>
+            <FaChartLine size={14} color="#ff9800" />
+            <span>The creator can privately see the running lowest, highest and average bid while bidding is open</span>
+          </div>
+        )}
+        
+        {project.status === ProjectStatus.Awarded && project.awardAccepted && (
+          <ContractExecution
+            chainId={chainId}
+            project={project}
+            account={account}
+            isCreator={!!isCreator}
+            isWinner={!!isWinner}
+            version={escrowVersion}
+            onFund={(descriptions, amounts) => fundEscrow(project, descriptions, amounts)}
+            onAction={(action, args, message) => escrowAction(project.id, action, args, message)}
+          />
+        )}
+        
+        {project.status === ProjectStatus.Awarded && (
+          <DisputePanel
+            chainId={chainId}
+            project={project}
+            account={account}
+            isCreator={!!isCreator}
+            isWinner={!!isWinner}
+            version={escrowVersion}
+            onAction={(action, args, message, value) => escrowAction(project.id, action, args, message, value)}
+          />
+        )}
+        
+        {project.liveStats && isCreator && (
+          <div style={{ 
+            padding: "12px", 
+            marginBottom: 16, 
+            borderRadius: 8, 
+            background: "rgba(255, 152, 0, 0.1)",
+            border: "1px solid rgba(255, 152, 0, 0.2)"
+          }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: liveStats[project.id] ? 8 : 0 }}>
+              <FaChartLine size={14} color="#ff9800" />
+              <span>Live dashboard (only visible to you)</span>
+              <button 
+                onClick={() => viewLiveStats(project)}
+                disabled={decryptingStatsId === project.id || project.numBids === 0}
+                style={{
+                  marginLeft: "auto",
+                  padding: "4px 8px",
+                  background: "transparent",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                  borderRadius: 4,
+                  color: "white",
+                  cursor: "pointer",
+                  fontSize: "12px"
+                }}
+              >
+                {decryptingStatsId === project.id ? "Decrypting..." : project.numBids === 0 ? "No bids yet" : liveStats[project.id] ? "Refresh" : "Decrypt"}
+              </button>
+            </div>
+            {liveStats[project.id] && (
+              <div style={{ display: "flex", gap: 16, fontSize: 14, flexWrap: "wrap" }}>
+                <span>Lowest: {formatAmount(liveStats[project.id].lowest, project.decimals, project.tokenSymbol)}</span>
+                <span>Highest: {formatAmount(liveStats[project.id].highest, project.decimals, project.tokenSymbol)}</span>
+                <span>Average: {formatAmount(liveStats[project.id].average, project.decimals, project.tokenSymbol)}</span>
+                <span style={{ opacity: 0.6, fontSize: 12 }}>Lowest and highest still include revised or withdrawn bids</span>
+              </div>
+            )}
+          </div>
+        )}
+        
+        {project.hasMyBid && (
+          <div style={{ 
+            padding: "12px", 
+            marginBottom: 16, 
+            borderRadius: 8, 
+            background: "rgba(138, 43, 226, 0.1)",
+            border: "1px solid rgba(138, 43, 226, 0.2)",
+            display: "flex",
+            alignItems: "center",
+            gap: 8
+          }}>
+            <FaEye size={14} color="#8A2BE2" />
+            {myBids[project.id] !== undefined ? (
+              <span>My bid: {formatAmount(myBids[project.id], project.decimals, project.tokenSymbol)} <span style={{ opacity: 0.7 }}>(visible only to you)</span></span>
+            ) : (
+              <span>My bid is stored encrypted</span>
+            )}
+            <button 
+              onClick={() => viewMyBid(project.id)}
+              disabled={decryptingBidId === project.id}
+              style={{
+                marginLeft: "auto",
+                padding: "4px 8px",
+                background: "transparent",
+                border: "1px solid rgba(255, 255, 255, 0.3)",
+                borderRadius: 4,
+                color: "white",
+                cursor: "pointer",
+                fontSize: "12px"
+              }}
+            >
+              {decryptingBidId === project.id ? "Decrypting..." : myBids[project.id] !== undefined ? "Refresh" : "Decrypt"}
+            </button>
+          </div>
+        )}
+        
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          {isActive && account && !project.qualified && (
+            <button 
+              onClick={() => qualifyWithProof(project.id)}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "transparent", 
+                color: "#fff", 
+                border: "1px solid rgba(255, 255, 255, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              Prove Eligibility
+            </button>
+          )}
+          
+          {isActive && account && project.qualified && (
+            <button 
+              onClick={() => { setBiddingProjectId(project.id); setBiddingCriteria(project.criteria.map(() => "")); }} 
+              className="glow-button"
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "linear-gradient(45deg, #8A2BE2, #00BFFF)", 
+                color: "#fff", 
+                border: "none", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              {project.hasMyBid ? "Update Bid" : "Place Bid"}
+            </button>
+          )}
+          
+          {isActive && project.hasMyBid && (
+            <button 
+              onClick={() => withdrawBid(project.id)}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "transparent", 
+                color: "#fff", 
+                border: "1px solid rgba(255, 255, 255, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              Withdraw Bid
+            </button>
+          )}
+          
+          {isCreator && (isDraft || isActive) && project.restricted && (
+            <>
+              <button 
+                onClick={() => updateAllowlist(project.id, "addToAllowlist")}
+                style={{ 
+                  padding: "8px 12px", 
+                  borderRadius: 8, 
+                  background: "transparent", 
+                  color: "#fff", 
+                  border: "1px solid rgba(255, 255, 255, 0.3)", 
+                  cursor: "pointer",
+                  fontWeight: "600",
+                  fontSize: "14px"
+                }}
+              >
+                Add Suppliers
+              </button>
+              <button 
+                onClick={() => updateAllowlist(project.id, "removeFromAllowlist")}
+                style={{ 
+                  padding: "8px 12px", 
+                  borderRadius: 8, 
+                  background: "transparent", 
+                  color: "#fff", 
+                  border: "1px solid rgba(255, 255, 255, 0.3)", 
+                  cursor: "pointer",
+                  fontWeight: "600",
+                  fontSize: "14px"
+                }}
+              >
+                Remove Suppliers
+              </button>
+            </>
+          )}
+          
+          {isCreator && isDraft && (
+            <button 
+              onClick={() => openProject(project.id)}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "rgba(33, 150, 243, 0.2)", 
+                color: "#2196f3", 
+                border: "1px solid rgba(33, 150, 243, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              Open Bidding
+            </button>
+          )}
+          
+          {isCreator && (isDraft || isActive) && (
+            <button 
+              onClick={() => cancelProject(project.id)}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "transparent", 
+                color: "#f44336", 
+                border: "1px solid rgba(244, 67, 54, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              Cancel
+            </button>
+          )}
+          
+          {/* a creator watching live stats could stop bidding while a favourite leads, so only cancelling is left */}
+          {isCreator && isActive && !project.liveStats && (
+            <button 
+              onClick={() => terminateProject(project.id)}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "rgba(244, 67, 54, 0.2)", 
+                color: "#f44336", 
+                border: "1px solid rgba(244, 67, 54, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px",
+                display: "flex",
+                alignItems: "center",
+                gap: 4
+              }}
+            >
+              <FaLock size={12} /> Terminate
+            </button>
+          )}
+          
+          {canReveal && account && (
+            <button 
+              onClick={() => declareWinner(project.id)}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "rgba(76, 175, 80, 0.2)", 
+                color: "#4caf50", 
+                border: "1px solid rgba(76, 175, 80, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px",
+                display: "flex",
+                alignItems: "center",
+                gap: 4
+              }}
+            >
+              <FaLockOpen size={12} /> {project.status === ProjectStatus.Decrypting ? "Retry Reveal" : "Reveal Winner"}
+            </button>
+          )}
+          
+          {canAccept && (
+            <button 
+              onClick={() => bondAction(project.id, "acceptAward", "Award accepted and bond returned!")}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "rgba(76, 175, 80, 0.2)", 
+                color: "#4caf50", 
+                border: "1px solid rgba(76, 175, 80, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              Accept Award
+            </button>
+          )}
+          
+          {canWithdrawBond && (
+            <button 
+              onClick={() => bondAction(project.id, "withdrawBond", "Bond withdrawn!")}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "rgba(76, 175, 80, 0.2)", 
+                color: "#4caf50", 
+                border: "1px solid rgba(76, 175, 80, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              Withdraw Bond
+            </button>
+          )}
+          
+          {canClaimForfeit && (
+            <button 
+              onClick={() => bondAction(project.id, "claimForfeitedBond", "Forfeited bond claimed!")}
+              style={{ 
+                padding: "8px 12px", 
+                borderRadius: 8, 
+                background: "rgba(76, 175, 80, 0.2)", 
+                color: "#4caf50", 
+                border: "1px solid rgba(76, 175, 80, 0.3)", 
+                cursor: "pointer",
+                fontWeight: "600",
+                fontSize: "14px"
+              }}
+            >
+              Claim Forfeited Bond
+            </button>
+          )}
+        </div>
+        
+        {/* Bid Form */}
+        {biddingProjectId === project.id && (
+          <div style={{ 
+            marginTop: 16, 
+            padding: "16px", 
+            borderRadius: 8, 
+            background: "rgba(255, 255, 255, 0.05)",
+            border: "1px solid rgba(255, 255, 255, 0.1)"
+          }}>
+            <h4 style={{ marginTop: 0, marginBottom: 12, fontSize: 16 }}>{project.hasMyBid ? `Update Your Encrypted Bid (${project.tokenSymbol})` : `Place Your Encrypted Bid (${project.tokenSymbol})`}</h4>
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <input 
+                type="number" 
+                value={biddingAmount} 
+                onChange={e => setBiddingAmount(e.target.value)} 
+                placeholder={`Bid amount (${project.tokenSymbol}, up to ${project.decimals} decimals)`} 
+                step={ethers.formatUnits(1n, project.decimals)}
+                min="0"
+                style={{ 
+                  padding: "8px 12px", 
+                  borderRadius: 4,
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  background: "rgba(255, 255, 255, 0.1)",
+                  color: "white",
+                  flex: "1",
+                  minWidth: "120px"
+                }}
+              />
+              {project.criteria.map((c, idx) => (
+                <input 
+                  key={idx}
+                  type="number" 
+                  value={biddingCriteria[idx] ?? ""} 
+                  onChange={e => setBiddingCriteria(prev => prev.map((v, j) => j === idx ? e.target.value : v))} 
+                  placeholder={c.name} 
+                  step="1"
+                  min="0"
+                  style={{ 
+                    padding: "8px 12px", 
+                    borderRadius: 4,
+                    border: "1px solid rgba(255, 255, 255, 0.2)",
+                    background: "rgba(255, 255, 255, 0.1)",
+                    color: "white",
+                    flex: "1",
+                    minWidth: "120px"
+                  }}
+                />
+              ))}
+              <button 
+                onClick={() => placeBid(project, biddingAmount, biddingCriteria.map(Number))}
+                disabled={bidding}
+                style={{ 
+                  padding: "8px 12px", 
+                  borderRadius: 8, 
+                  background: "linear-gradient(45deg, #8A2BE2, #00BFFF)", 
+                  color: "#fff", 
+                  border: "none", 
+                  cursor: bidding ? "not-allowed" : "pointer",
+                  opacity: bidding ? 0.7 : 1,
+                  fontWeight: "600"
+                }}
+              >
+                {bidding ? "Encrypting..." : "Submit Bid"}
+              </button>
+              <button 
+                onClick={() => setBiddingProjectId(null)}
+                style={{ 
+                  padding: "8px 12px", 
+                  borderRadius: 8, 
+                  background: "transparent", 
+                  color: "#fff", 
+                  border: "1px solid rgba(255, 255, 255, 0.3)", 
+                  cursor: "pointer"
+                }}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ 
+      fontFamily: "'Poppins', sans-serif", 
+      minHeight: "100vh", 
+      padding: 0, 
+      background: "linear-gradient(135deg, #0f0c29 0%, #302b63 50%, #24243e 100%)",
+      color: "#fff",
+      position: "relative",
+      overflowX: "hidden"
+    }}>
+      {/* Animated background elements */}
+      <div className="bg-bubbles">
+        {[...Array(10)].map((_, i) => <div key={i} className="bubble"></div>)}
+      </div>
+
+      {/* Navbar */}
+      <header style={{ 
+        display: "flex", 
+        justifyContent: "space-between", 
+        marginBottom: 32, 
+        alignItems: "center",
+        backdropFilter: "blur(10px)",
+        background: "rgba(255, 255, 255, 0.05)",
+        padding: "16px 5%",
+        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+        position: "sticky",
+        top: 0,
+        zIndex: 100
+      }}>
+        <h1 style={{ 
+          fontSize: 28, 
+          fontWeight: "700", 
+          margin: 0, 
+          background: "linear-gradient(45deg, #8A2BE2, #00BFFF)", 
+          backgroundClip: "text", 
+          WebkitBackgroundClip: "text", 
+          color: "transparent",
+          display: "flex",
+          alignItems: "center",
+          gap: 10
+        }}>
+          <div style={{ 
+            width: 12, 
+            height: 12, 
+            borderRadius: "50%", 
+            background: "linear-gradient(45deg, #8A2BE2, #00BFFF)",
+            boxShadow: "0 0 10px rgba(138, 43, 226, 0.5)"
+          }}></div>
+          Zama FHE Tender
+          <div style={{ 
+            width: 12, 
+            height: 12, 
+            borderRadius: "50%", 
+            background: "linear-gradient(45deg, #00BFFF, #8A2BE2)",
             boxShadow: "0 0 10px rgba(0, 191, 255, 0.5)"
           }}></div>
         </h1>
         <div style={{ display: "flex", alignItems: "center", gap: 16 }}>
+          {activityIds.length > 0 && (
+            <button
+              onClick={() => setActivityIds([])}
+              title="Mark all as seen"
+              style={{
+                padding: "6px 12px",
+                borderRadius: 12,
+                border: "none",
+                fontSize: 12,
+                fontWeight: "600",
+                background: "rgba(0, 191, 255, 0.2)",
+                color: "#00BFFF",
+                cursor: "pointer"
+              }}
+            >
+              ● {activityIds.length} updated
+            </button>
+          )}
+          <span style={{
+            padding: "6px 12px",
+            borderRadius: 12,
+            fontSize: 12,
+            fontWeight: "600",
+            background: network ? "rgba(0, 191, 255, 0.2)" : "rgba(244, 67, 54, 0.2)",
+            color: network ? "#00BFFF" : "#f44336"
+          }}>
+            {network ? network.name : `Unsupported chain ${chainId}`}
+          </span>
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="glow-button"
@@ -299,290 +1368,190 @@ export default function App() {
 
       {/* Main Content */}
       <div style={{ padding: "0 5%" }}>
-        {/* Platform Intro */}
-        <section style={{ 
-          marginBottom: 32, 
-          padding: 24, 
-          borderRadius: 20, 
-          background: "rgba(255, 255, 255, 0.05)",
-          backdropFilter: "blur(10px)",
-          border: "1px solid rgba(255, 255, 255, 0.1)",
-          boxShadow: "0 8px 32px rgba(0, 0, 0, 0.1)",
-          position: "relative",
-          overflow: "hidden"
-        }}>
-          <div className="corner-shine"></div>
-          <h2 style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 0 }}>
-            <FaList /> Platform Overview
-          </h2>
-          <p>Create and participate in transparent bidding projects on the blockchain. The lowest valid bid wins the project.</p>
-
-          <h3 style={{ display: "flex", alignItems: "center", gap: 8 }}>
-            <FaChartLine /> Statistics
-          </h3>
-          <div style={{ 
-            display: "flex", 
-            gap: 24,
+        {(!network || !contractAddress || !supportsFhe(chainId)) && (
+          <div style={{
+            marginBottom: 24,
+            padding: "12px 16px",
+            borderRadius: 8,
+            background: "rgba(255, 152, 0, 0.15)",
+            border: "1px solid rgba(255, 152, 0, 0.4)",
+            color: "#ff9800",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: 12,
             flexWrap: "wrap"
           }}>
-            <div className="stat-card">
-              <div style={{ fontSize: "12px", opacity: 0.8 }}>Total Projects</div>
-              <div style={{ fontSize: "24px", fontWeight: "bold" }}>{totalProjects}</div>
-            </div>
-            <div className="stat-card">
-              <div style={{ fontSize: "12px", opacity: 0.8 }}>Total Bids</div>
-              <div style={{ fontSize: "24px", fontWeight: "bold" }}>{totalBids}</div>
-            </div>
-            <div className="stat-card">
-              <div style={{ fontSize: "12px", opacity: 0.8 }}>Active Projects</div>
-              <div style={{ fontSize: "24px", fontWeight: "bold" }}>{activeProjects}</div>
-            </div>
+            <span>
+              {!network
+                ? `Your wallet is on chain ${chainId}, which this app does not support.`
+                : !contractAddress
+                  ? `No tender contract is deployed on ${network.name}.`
+                  : `${network.name} has no FHE relayer, so encrypted bids cannot be placed or decrypted here.`}
+            </span>
+            {walletProvider && (
+              <span style={{ display: "flex", gap: 8 }}>
+                {Object.values(NETWORKS).filter(n => n.chainId !== chainId).map(n => (
+                  <button
+                    key={n.chainId}
+                    onClick={() => switchNetwork(n.chainId)}
+                    style={{
+                      padding: "6px 12px",
+                      background: "transparent",
+                      color: "#ff9800",
+                      border: "1px solid #ff9800",
+                      borderRadius: 6,
+                      cursor: "pointer"
+                    }}
+                  >
+                    Switch to {n.name}
+                  </button>
+                ))}
+              </span>
+            )}
           </div>
-        </section>
-
-        {/* Tabs */}
-        <div style={{ 
-          display: "flex", 
-          gap: 16, 
-          marginBottom: 24,
-          background: "rgba(255, 255, 255, 0.05)",
-          borderRadius: 12,
-          padding: 8,
-          width: "fit-content"
-        }}>
-          {[
-            { id: "all", label: "All Projects" },
-            { id: "active", label: "Active" },
-            { id: "completed", label: "Completed" }
-          ].map(tab => (
-            <button
-              key={tab.id}
-              onClick={() => setActiveTab(tab.id)}
-              style={{
-                padding: "10px 20px",
-                borderRadius: 8,
-                border: "none",
-                background: activeTab === tab.id ? "linear-gradient(45deg, #8A2BE2, #00BFFF)" : "transparent",
-                color: "white",
-                cursor: "pointer",
-                fontWeight: "600",
-                transition: "all 0.3s ease"
-              }}
-            >
-              {tab.label}
-            </button>
-          ))}
-        </div>
-
-        {/* Projects Grid */}
-        <div style={{ 
-          display: "grid", 
-          gridTemplateColumns: "repeat(auto-fill, minmax(350px, 1fr))", 
-          gap: 24,
-          marginBottom: 40
-        }}>
-          {filteredProjects.length === 0 ? (
-            <div style={{ 
-              gridColumn: "1 / -1",
-              padding: 40, 
-              textAlign: "center", 
+        )}
+        {routeProjectId !== null ? (
+          routeProject ? (
+            <ProjectDetail chainId={chainId} project={routeProject} card={renderProjectCard(routeProject, true)} />
+          ) : (
+            <div style={{ padding: 40, textAlign: "center" }}>
+              <h3>Project #{routeProjectId} not found</h3>
+              <Link to="/" style={{ color: "#00BFFF" }}>Back to all projects</Link>
+            </div>
+          )
+        ) : (
+          <>
+            {/* Platform Intro */}
+            <section style={{ 
+              marginBottom: 32, 
+              padding: 24, 
               borderRadius: 20, 
               background: "rgba(255, 255, 255, 0.05)",
               backdropFilter: "blur(10px)",
               border: "1px solid rgba(255, 255, 255, 0.1)",
+              boxShadow: "0 8px 32px rgba(0, 0, 0, 0.1)",
+              position: "relative",
+              overflow: "hidden"
             }}>
-              <h3>No projects found</h3>
-              <p>Create the first project to get started!</p>
+              <div className="corner-shine"></div>
+              <h2 style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 0 }}>
+                <FaList /> Platform Overview
+              </h2>
+              <p>Create and participate in transparent bidding projects on the blockchain. The lowest valid bid wins the project.</p>
+
+              <h3 style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <FaChartLine /> Statistics
+              </h3>
+              <div style={{ 
+                display: "flex", 
+                gap: 24,
+                flexWrap: "wrap"
+              }}>
+                <div className="stat-card">
+                  <div style={{ fontSize: "12px", opacity: 0.8 }}>Total Projects</div>
+                  <div style={{ fontSize: "24px", fontWeight: "bold" }}>{totalProjects}</div>
+                </div>
+                <div className="stat-card">
+                  <div style={{ fontSize: "12px", opacity: 0.8 }}>Total Participants</div>
+                  <div style={{ fontSize: "24px", fontWeight: "bold" }}>{totalParticipants}</div>
+                </div>
+                <div className="stat-card">
+                  <div style={{ fontSize: "12px", opacity: 0.8 }}>Active Projects</div>
+                  <div style={{ fontSize: "24px", fontWeight: "bold" }}>{activeProjects}</div>
+                </div>
+              </div>
+            </section>
+
+            {/* Tabs */}
+            <div style={{ 
+              display: "flex", 
+              gap: 16, 
+              marginBottom: 24,
+              background: "rgba(255, 255, 255, 0.05)",
+              borderRadius: 12,
+              padding: 8,
+              width: "fit-content"
+            }}>
+              {[
+                { id: "all", label: "All Projects" },
+                { id: "active", label: "Active" },
+                { id: "completed", label: "Completed" },
+                ...(account ? [{ id: "mine", label: "My Projects" }] : [])
+              ].map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => { setActiveTab(tab.id); setPage(0); }}
+                  style={{
+                    padding: "10px 20px",
+                    borderRadius: 8,
+                    border: "none",
+                    background: activeTab === tab.id ? "linear-gradient(45deg, #8A2BE2, #00BFFF)" : "transparent",
+                    color: "white",
+                    cursor: "pointer",
+                    fontWeight: "600",
+                    transition: "all 0.3s ease"
+                  }}
+                >
+                  {tab.label}
+                </button>
+              ))}
             </div>
-          ) : (
-            filteredProjects.map(project => {
-              const isCreator = account && checkIsCreator(account, project.creator);
-              const isActive = !project.terminated && project.deadline * 1000 > Date.now();
-              const isCompleted = project.terminated || project.winnerDeclared;
-              
-              return (
-                <div key={project.id} className="project-card">
-                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 16 }}>
-                    <h3 style={{ marginTop: 0, marginBottom: 8, fontSize: 18 }}>{project.title}</h3>
-                    <div style={{ 
-                      padding: "4px 8px", 
-                      borderRadius: 4, 
-                      fontSize: "12px", 
-                      fontWeight: "bold",
-                      background: isCompleted ? "rgba(76, 175, 80, 0.2)" : 
-                                  isActive ? "rgba(33, 150, 243, 0.2)" : "rgba(158, 158, 158, 0.2)",
-                      color: isCompleted ? "#4caf50" : isActive ? "#2196f3" : "#9e9e9e"
-                    }}>
-                      {isCompleted ? "COMPLETED" : isActive ? "ACTIVE" : "CLOSED"}
-                    </div>
-                  </div>
-                  
-                  <p style={{ marginTop: 0, marginBottom: 16, opacity: 0.9, fontSize: 14 }}>{project.description}</p>
-                  
-                  <div style={{ display: "flex", gap: 16, fontSize: 14, opacity: 0.9, marginBottom: 16, flexWrap: "wrap" }}>
-                    <span style={{ display: "flex", alignItems: "center", gap: 4 }}>
-                      <FaClock size={14} /> Deadline: {new Date(project.deadline * 1000).toLocaleString()}
-                    </span>
-                    <span>Bids: {project.numBids}</span>
-                  </div>
-                  
-                  {isCompleted && project.winnerDeclared && (
-                    <div style={{ 
-                      padding: "12px", 
-                      marginBottom: 16, 
-                      borderRadius: 8, 
-                      background: "rgba(76, 175, 80, 0.1)",
-                      border: "1px solid rgba(76, 175, 80, 0.2)",
-                      display: "flex",
-                      alignItems: "center",
-                      gap: 8
-                    }}>
-                      <FaTrophy color="#4caf50" />
-                      <span>Winner: {project.winner.substring(0, 8)}...{project.winner.substring(project.winner.length - 6)}</span>
-                      <span style={{marginLeft: "auto"}}>{project.lowestBid} ETH</span>
-                      <button 
-                        onClick={() => getWinnerInfo(project.id)}
-                        style={{
-                          padding: "4px 8px",
-                          background: "transparent",
-                          color: "#4caf50",
-                          border: "1px solid #4caf50",
-                          borderRadius: 4,
-                          fontSize: "12px",
-                          cursor: "pointer"
-                        }}
-                      >
-                        Details
-                      </button>
-                    </div>
-                  )}
-                  
-                  {isActive && (
-                    <div style={{ 
-                      padding: "12px", 
-                      marginBottom: 16, 
-                      borderRadius: 8, 
-                      background: "rgba(33, 150, 243, 0.1)",
-                      border: "1px solid rgba(33, 150, 243, 0.2)",
-                      display: "flex",
-                      alignItems: "center",
-                      gap: 8
-                    }}>
-                      <FaEyeSlash size={14} color="#2196f3" />
-                      <span>Bidding details will be revealed after completion</span>
-                    </div>
-                  )}
-                  
-                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-                    {isActive && account && (
-                      <button 
-                        onClick={() => setBiddingProjectId(project.id)} 
-                        className="glow-button"
-                        style={{ 
-                          padding: "8px 12px", 
-                          borderRadius: 8, 
-                          background: "linear-gradient(45deg, #8A2BE2, #00BFFF)", 
-                          color: "#fff", 
-                          border: "none", 
-                          cursor: "pointer",
-                          fontWeight: "600",
-                          fontSize: "14px"
-                        }}
-                      >
-                        Place Bid
-                      </button>
-                    )}
-                    
-                    {isCreator && isActive && (
-                      <button 
-                        onClick={() => terminateProject(project.id)}
-                        style={{ 
-                          padding: "8px 12px", 
-                          borderRadius: 8, 
-                          background: "rgba(244, 67, 54, 0.2)", 
-                          color: "#f44336", 
-                          border: "1px solid rgba(244, 67, 54, 0.3)", 
-                          cursor: "pointer",
-                          fontWeight: "600",
-                          fontSize: "14px",
-                          display: "flex",
-                          alignItems: "center",
-                          gap: 4
-                        }}
-                      >
-                        <FaLock size={12} /> Terminate
-                      </button>
-                    )}
-                  </div>
-                  
-                  {/* Bid Form */}
-                  {biddingProjectId === project.id && (
-                    <div style={{ 
-                      marginTop: 16, 
-                      padding: "16px", 
-                      borderRadius: 8, 
-                      background: "rgba(255, 255, 255, 0.05)",
-                      border: "1px solid rgba(255, 255, 255, 0.1)"
-                    }}>
-                      <h4 style={{ marginTop: 0, marginBottom: 12, fontSize: 16 }}>Place Your Bid (ETH)</h4>
-                      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
-                        <input 
-                          type="number" 
-                          value={biddingAmount} 
-                          onChange={e => setBiddingAmount(e.target.value)} 
-                          placeholder="Bid amount (ETH)" 
-                          step="0.001"
-                          min="0.001"
-                          style={{ 
-                            padding: "8px 12px", 
-                            borderRadius: 4,
-                            border: "1px solid rgba(255, 255, 255, 0.2)",
-                            background: "rgba(255, 255, 255, 0.1)",
-                            color: "white",
-                            flex: "1",
-                            minWidth: "120px"
-                          }}
-                        />
-                        <button 
-                          onClick={() => placeBid(project.id, Number(biddingAmount))}
-                          style={{ 
-                            padding: "8px 12px", 
-                            borderRadius: 8, 
-                            background: "linear-gradient(45deg, #8A2BE2, #00BFFF)", 
-                            color: "#fff", 
-                            border: "none", 
-                            cursor: "pointer",
-                            fontWeight: "600"
-                          }}
-                        >
-                          Submit Bid
-                        </button>
-                        <button 
-                          onClick={() => setBiddingProjectId(null)}
-                          style={{ 
-                            padding: "8px 12px", 
-                            borderRadius: 8, 
-                            background: "transparent", 
-                            color: "#fff", 
-                            border: "1px solid rgba(255, 255, 255, 0.3)", 
-                            cursor: "pointer"
-                          }}
-                        >
-                          Cancel
-                        </button>
-                      </div>
-                    </div>
-                  )}
+
+            {/* Projects Grid */}
+            <div style={{ 
+              display: "grid", 
+              gridTemplateColumns: "repeat(auto-fill, minmax(350px, 1fr))", 
+              gap: 24,
+              marginBottom: 40
+            }}>
+              {filteredProjects.length === 0 ? (
+                <div style={{ 
+                  gridColumn: "1 / -1",
+                  padding: 40, 
+                  textAlign: "center", 
+                  borderRadius: 20, 
+                  background: "rgba(255, 255, 255, 0.05)",
+                  backdropFilter: "blur(10px)",
+                  border: "1px solid rgba(255, 255, 255, 0.1)",
+                }}>
+                  <h3>No projects found</h3>
+                  <p>Create the first project to get started!</p>
                 </div>
-              );
-            })
-          )}
-        </div>
+              ) : (
+                filteredProjects.map(project => renderProjectCard(project))
+              )}
+            </div>
+
+            {/* Pagination */}
+            {pageCount > 1 && (
+              <div style={{ display: "flex", justifyContent: "center", alignItems: "center", gap: 16, marginBottom: 40 }}>
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 0}
+                  style={pageButtonStyle(page === 0)}
+                >
+                  Previous
+                </button>
+                <span>Page {page + 1} of {pageCount}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page + 1 >= pageCount}
+                  style={pageButtonStyle(page + 1 >= pageCount)}
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
       </div>
 
       {/* Modals */}
       {showCreateModal && (
         <ModalCreate 
+          chainId={chainId}
+          account={account}
           onCreate={createProject} 
           onClose={() => setShowCreateModal(false)} 
           creating={creating} 
@@ -766,15 +1735,697 @@ export default function App() {
   );
 }
 
+// ------------------- Project Detail Page -------------------
+const shortAddr = (a: string) => `${a.substring(0, 8)}...${a.substring(a.length - 6)}`;
+
+// Bid amounts are integers with a per-project number of implied decimal places
+const formatAmount = (amount: bigint, decimals: number, symbol: string) => `${ethers.formatUnits(amount, decimals).replace(/\.0$/, "")} ${symbol}`;
+
+// null when the input is not a number or has more decimal places than the project allows
+function parseAmount(input: string, decimals: number): bigint | null {
+  try {
+    return ethers.parseUnits(input.trim(), decimals);
+  } catch {
+    return null;
+  }
+}
+
+const DECIMAL_OPTIONS = [0, 6, 9, 12, 18];
+// TenderEscrow.MAX_MILESTONES
+const MAX_MILESTONES = 10;
+const MAX_BID_UNITS = 2n ** 64n - 1n;
+
+// Label for a contract event on the detail page; bid events go to the bid history instead
+function describeEvent(entry: HistoryEntry, project: Project): string | null {
+  const { args } = entry;
+  switch (entry.name) {
+    case "ProjectCreated": return "Project created";
+    case "StatusChanged": return `Status changed to ${STATUS_BADGES[Number(args.status) as ProjectStatus].label}`;
+    case "ReservePriceSet": return "Encrypted reserve price set";
+    case "LiveStatsEnabled": return "Creator live stats enabled";
+    case "AllowlistUpdated": return `${shortAddr(args.bidder)} ${args.allowed ? "prequalified" : "removed from the allowlist"}`;
+    case "AllowlistRootSet": return "Supplier allowlist root published";
+    case "ProjectTerminated": return "Bidding ended early by the creator";
+    case "WinnerDeclared": return `Winner declared: ${shortAddr(args.winner)}`;
+    case "NoAward": return "Closed without an award";
+    case "AwardAccepted": return "Award accepted by the winner";
+    case "BondForfeited": return `Winner's bond of ${ethers.formatEther(args.amount)} ETH forfeited to the creator`;
+    case "EscrowFunded": return `Creator escrowed ${formatAmount(args.amount, project.tokenDecimals, project.tokenSymbol)} in ${args.milestones} milestone(s)`;
+    case "MilestoneSubmitted": return `Milestone ${Number(args.milestone) + 1} delivered by the winner`;
+    case "MilestoneReleased": return `Milestone ${Number(args.milestone) + 1} paid${args.byTimeout ? " after the approval timeout" : " on the creator's approval"}`;
+    case "MilestoneDisputeFlagged": return `Milestone ${Number(args.milestone) + 1} ${args.flagged ? "disputed" : "dispute withdrawn"} by ${shortAddr(args.party)}`;
+    case "DisputeOpened": return `Dispute opened by ${shortAddr(args.claimant)}`;
+    case "DisputeResolved": {
+      const moved = args.toWinner + args.toCreator > 0n
+        ? `; ${formatAmount(args.toWinner, project.tokenDecimals, project.tokenSymbol)} to the winner, ${formatAmount(args.toCreator, project.tokenDecimals, project.tokenSymbol)} back to the creator`
+        : "";
+      return `Arbiter ${args.upheld ? "upheld" : "dismissed"} the dispute by ${shortAddr(args.claimant)}${moved}`;
+    }
+    default: return null;
+  }
+}
+
+const BID_EVENTS: Record<string, string> = {
+  EncryptedBidPlaced: "Bid placed",
+  EncryptedBidUpdated: "Bid updated",
+  EncryptedBidWithdrawn: "Bid withdrawn",
+  BondRefunded: "Bond refunded",
+};
+
+const escrowButtonStyle: React.CSSProperties = {
+  padding: "4px 8px",
+  background: "transparent",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: 4,
+  color: "white",
+  cursor: "pointer",
+  fontSize: "12px"
+};
+
+const escrowInputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  borderRadius: 4,
+  border: "1px solid rgba(255, 255, 255, 0.2)",
+  background: "rgba(255, 255, 255, 0.1)",
+  color: "white"
+};
+
+// Mirrors TenderEscrow.MilestoneStatus
+enum MilestoneStatus { Pending, Submitted, Released, Settled }
+
+interface Milestone {
+  description: string;
+  amount: bigint;
+  status: MilestoneStatus;
+  submittedAt: number;
+  creatorDisputed: boolean;
+  winnerDisputed: boolean;
+}
+
+type EscrowAction =
+  | "submitMilestone" | "approveMilestone" | "releaseMilestone" | "flagMilestoneDispute"
+  | "openDispute" | "resolveDispute";
+
+// Post-award phase of an accepted award: the creator escrows the payment in milestones,
+// the winner reports each one delivered, and each is paid on approval or after the timeout
+function ContractExecution({ chainId, project, account, isCreator, isWinner, version, onFund, onAction }: {
+  chainId: number;
+  project: Project;
+  account: string;
+  isCreator: boolean;
+  isWinner: boolean;
+  version: number;
+  onFund: (descriptions: string[], amounts: bigint[]) => Promise<boolean>;
+  onAction: (action: EscrowAction, args: unknown[], successMessage: string) => Promise<boolean>;
+}) {
+  const [escrow, setEscrow] = useState<{ amount: bigint; released: bigint; refunded: bigint } | null>(null);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [approvalTimeout, setApprovalTimeout] = useState(0);
+  // an open dispute of the creator or the winner pauses timeout releases
+  const [partyDisputeOpen, setPartyDisputeOpen] = useState(false);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [rows, setRows] = useState([{ description: "", amount: "" }]);
+  const [busy, setBusy] = useState(false);
+  const hasEscrow = !!getEscrowAddress(chainId);
+  const format = (amount: bigint) => formatAmount(amount, project.tokenDecimals, project.tokenSymbol);
+  // the award converted to token units, as FHETendering.getAward computes it
+  const owed = project.clearingPrice * 10n ** BigInt(project.tokenDecimals - project.decimals);
+
+  const load = async () => {
+    const contract = await getEscrowReadOnly(chainId);
+    if (!contract) return;
+    try {
+      const [raw, list, timeout, partyDisputes] = await Promise.all([
+        contract.escrows(project.id),
+        contract.getMilestones(project.id),
+        contract.MILESTONE_APPROVAL_TIMEOUT(),
+        contract.openPartyDisputes(project.id),
+      ]);
+      setEscrow({ amount: raw.amount, released: raw.released, refunded: raw.refunded });
+      setMilestones(list.map((m: any) => ({
+        description: m.description,
+        amount: m.amount,
+        status: Number(m.status),
+        submittedAt: Number(m.submittedAt),
+        creatorDisputed: m.creatorDisputed,
+        winnerDisputed: m.winnerDisputed,
+      })));
+      setApprovalTimeout(Number(timeout));
+      setPartyDisputeOpen(partyDisputes > 0n);
+    } catch (e) {
+      console.error("Failed to load escrow", e);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [chainId, project.id, version]);
+
+  const funded = !!escrow && escrow.amount > 0n;
+  useEffect(() => {
+    if (!isCreator || !escrow || funded) return;
+    getTokenBalance(chainId, project.paymentToken, account)
+      .then(setBalance)
+      .catch(e => console.error("Failed to read token balance", e));
+  }, [chainId, project.paymentToken, account, isCreator, escrow, funded]);
+
+  const run = async (action: Promise<boolean>) => {
+    setBusy(true);
+    try {
+      if (await action) await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const parsedRows = rows.map(row => parseAmount(row.amount, project.tokenDecimals));
+  const scheduled = parsedRows.reduce<bigint>((sum, amount) => sum + (amount ?? 0n), 0n);
+  const submitFunding = () => {
+    if (rows.some((row, i) => !row.description.trim() || !parsedRows[i] || parsedRows[i]! <= 0n)) {
+      alert("Every milestone needs a description and a positive amount");
+      return;
+    }
+    if (scheduled !== owed) {
+      alert(`Milestones must add up to exactly ${format(owed)}`);
+      return;
+    }
+    run(onFund(rows.map(row => row.description.trim()), parsedRows as bigint[]));
+  };
+
+  const now = Date.now() / 1000;
+  return (
+    <div style={{ 
+      padding: "12px", 
+      marginBottom: 16, 
+      borderRadius: 8, 
+      background: "rgba(0, 191, 255, 0.1)",
+      border: "1px solid rgba(0, 191, 255, 0.2)"
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
+        <FaMoneyBillWave size={14} color="#00BFFF" />
+        <strong>Contract execution</strong>
+        {funded && (
+          <span style={{ marginLeft: "auto", fontSize: 12, opacity: 0.8 }}>
+            {format(escrow!.released)} of {format(escrow!.amount)} paid
+            {escrow!.refunded > 0n && `, ${format(escrow!.refunded)} refunded`}
+          </span>
+        )}
+      </div>
+
+      {!hasEscrow ? (
+        <span style={{ fontSize: 14, opacity: 0.8 }}>No escrow contract is deployed on this network.</span>
+      ) : !escrow ? (
+        <span style={{ fontSize: 14, opacity: 0.8 }}>Loading escrow...</span>
+      ) : !funded ? (
+        <div style={{ fontSize: 14 }}>
+          <div style={{ marginBottom: 8 }}>
+            Awaiting {format(owed)} in escrow from the creator.
+            {isCreator && balance !== null && <span style={{ opacity: 0.7, fontSize: 12 }}> Your balance: {format(balance)}</span>}
+          </div>
+          {isCreator && (
+            <>
+              {rows.map((row, i) => (
+                <div key={i} style={{ display: "flex", gap: 8, marginBottom: 6 }}>
+                  <input
+                    type="text"
+                    value={row.description}
+                    onChange={e => setRows(prev => prev.map((r, j) => j === i ? { ...r, description: e.target.value } : r))}
+                    placeholder={`Milestone ${i + 1} deliverable`}
+                    style={{ ...escrowInputStyle, flex: 2 }}
+                  />
+                  <input
+                    type="number"
+                    value={row.amount}
+                    onChange={e => setRows(prev => prev.map((r, j) => j === i ? { ...r, amount: e.target.value } : r))}
+                    placeholder={project.tokenSymbol}
+                    min="0"
+                    step={ethers.formatUnits(1n, project.tokenDecimals)}
+                    style={{ ...escrowInputStyle, flex: 1, minWidth: 80 }}
+                  />
+                  {rows.length > 1 && (
+                    <button onClick={() => setRows(prev => prev.filter((_, j) => j !== i))} style={escrowButtonStyle}>✕</button>
+                  )}
+                </div>
+              ))}
+              <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+                {rows.length < MAX_MILESTONES && (
+                  <button onClick={() => setRows(prev => [...prev, { description: "", amount: "" }])} style={escrowButtonStyle}>
+                    + Milestone
+                  </button>
+                )}
+                <span style={{ fontSize: 12, opacity: 0.7 }}>Scheduled {format(scheduled)} of {format(owed)}</span>
+                <button onClick={submitFunding} disabled={busy} style={{ ...escrowButtonStyle, marginLeft: "auto" }}>
+                  {busy ? "Funding..." : "Fund Escrow"}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ) : (
+        milestones.map((m, i) => {
+          const releaseAt = m.submittedAt + approvalTimeout;
+          const canRelease = !!account && m.status === MilestoneStatus.Submitted && !m.creatorDisputed && !partyDisputeOpen && now > releaseAt;
+          const myFlag = isCreator ? m.creatorDisputed : m.winnerDisputed;
+          return (
+            <div key={i} style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", padding: "6px 0", borderTop: "1px solid rgba(255, 255, 255, 0.1)", fontSize: 14 }}>
+              <span style={{ opacity: 0.7 }}>#{i + 1}</span>
+              <span style={{ flex: 1, minWidth: 120 }}>{m.description}</span>
+              <span>{format(m.amount)}</span>
+              <span style={{ fontSize: 12, opacity: 0.8 }}>
+                {m.status === MilestoneStatus.Released ? "Paid"
+                  : m.status === MilestoneStatus.Settled ? "Settled by arbiter"
+                  : m.status === MilestoneStatus.Submitted && partyDisputeOpen ? "Delivered, paused by a dispute"
+                  : m.status === MilestoneStatus.Submitted ? `Delivered, auto-pays ${new Date(releaseAt * 1000).toLocaleDateString()}`
+                  : "Pending"}
+              </span>
+              {m.creatorDisputed && <span style={{ fontSize: 12, color: "#ff9800" }}>⚑ creator</span>}
+              {m.winnerDisputed && <span style={{ fontSize: 12, color: "#ff9800" }}>⚑ winner</span>}
+              {isWinner && m.status === MilestoneStatus.Pending && (
+                <button disabled={busy} onClick={() => run(onAction("submitMilestone", [i], "Milestone marked as delivered!"))} style={escrowButtonStyle}>
+                  Mark Delivered
+                </button>
+              )}
+              {isCreator && m.status < MilestoneStatus.Released && (
+                <button disabled={busy} onClick={() => run(onAction("approveMilestone", [i], "Milestone approved and paid!"))} style={escrowButtonStyle}>
+                  Approve & Pay
+                </button>
+              )}
+              {canRelease && (
+                <button disabled={busy} onClick={() => run(onAction("releaseMilestone", [i], "Milestone paid after the approval timeout!"))} style={escrowButtonStyle}>
+                  Release
+                </button>
+              )}
+              {(isCreator || isWinner) && m.status < MilestoneStatus.Released && (
+                <button
+                  disabled={busy}
+                  onClick={() => run(onAction("flagMilestoneDispute", [i, !myFlag], myFlag ? "Dispute flag withdrawn" : "Milestone flagged as disputed"))}
+                  style={escrowButtonStyle}
+                >
+                  {myFlag ? "Withdraw Dispute" : "Flag Dispute"}
+                </button>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+interface Dispute {
+  claimant: string;
+  evidenceURI: string;
+  openedAt: number;
+  open: boolean;
+  party: boolean;
+}
+
+// Evidence is usually on IPFS; anything else is shown as plain text
+function evidenceHref(uri: string): string | null {
+  if (uri.startsWith("ipfs://")) return `https://ipfs.io/ipfs/${uri.slice("ipfs://".length)}`;
+  return /^https?:\/\//.test(uri) ? uri : null;
+}
+
+// Arbitration of an awarded project: losing bidders may dispute the award within the
+// dispute window, creator and winner also while the escrow holds funds; the arbiter rules
+// on each claimant's dispute separately
+function DisputePanel({ chainId, project, account, isCreator, isWinner, version, onAction }: {
+  chainId: number;
+  project: Project;
+  account: string;
+  isCreator: boolean;
+  isWinner: boolean;
+  version: number;
+  onAction: (action: EscrowAction, args: unknown[], successMessage: string, value?: bigint) => Promise<boolean>;
+}) {
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  // claimant whose open dispute the arbiter is ruling on
+  const [ruling, setRuling] = useState<string | null>(null);
+  const [rules, setRules] = useState<{ arbiter: string; bond: bigint; window: number } | null>(null);
+  const [heldInEscrow, setHeldInEscrow] = useState(0n);
+  const [evidence, setEvidence] = useState("");
+  const [upheld, setUpheld] = useState(true);
+  const [settle, setSettle] = useState(false);
+  const [toWinner, setToWinner] = useState("");
+  const [busy, setBusy] = useState(false);
+  const format = (amount: bigint) => formatAmount(amount, project.tokenDecimals, project.tokenSymbol);
+
+  const load = async () => {
+    const contract = await getEscrowReadOnly(chainId);
+    if (!contract) return;
+    try {
+      const [raw, arbiter, bond, window, escrow] = await Promise.all([
+        contract.getDisputes(project.id),
+        contract.arbiter(),
+        contract.disputeBond(),
+        contract.DISPUTE_WINDOW(),
+        contract.escrows(project.id),
+      ]);
+      setDisputes(raw.map((d: any) => ({
+        claimant: d.claimant,
+        evidenceURI: d.evidenceURI,
+        openedAt: Number(d.openedAt),
+        open: d.open,
+        party: d.party,
+      })));
+      setRules({ arbiter, bond, window: Number(window) });
+      setHeldInEscrow(escrow.amount - escrow.released - escrow.refunded);
+    } catch (e) {
+      console.error("Failed to load dispute", e);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [chainId, project.id, version]);
+
+  if (!rules) return null;
+
+  const isArbiter = !!account && normAddr(account) === normAddr(rules.arbiter);
+  const inWindow = Date.now() <= (project.awardedAt + rules.window) * 1000;
+  const myDispute = disputes.find(d => normAddr(d.claimant) === normAddr(account));
+  // mirrors TenderEscrow.openDispute
+  const canOpen = !!account && !myDispute?.open && (
+    (isCreator || isWinner) ? inWindow || heldInEscrow > 0n : project.hasMyBid && inWindow
+  );
+  if (disputes.length === 0 && !canOpen && !isArbiter) return null;
+
+  const run = async (action: Promise<boolean>) => {
+    setBusy(true);
+    try {
+      if (await action) await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitDispute = () => {
+    if (!evidence.trim()) {
+      alert("Please link your evidence");
+      return;
+    }
+    run(onAction("openDispute", [evidence.trim()], "Dispute opened!", rules.bond));
+  };
+
+  const submitRuling = () => {
+    const share = settle ? parseAmount(toWinner || "0", project.tokenDecimals) : 0n;
+    if (share === null || share > heldInEscrow) {
+      alert(`The winner's share must be between 0 and ${format(heldInEscrow)}`);
+      return;
+    }
+    run(onAction("resolveDispute", [ruling, upheld, settle, share], "Ruling recorded!").then(done => {
+      if (done) setRuling(null);
+      return done;
+    }));
+  };
+
+  return (
+    <div style={{ 
+      padding: "12px", 
+      marginBottom: 16, 
+      borderRadius: 8, 
+      background: "rgba(255, 152, 0, 0.1)",
+      border: "1px solid rgba(255, 152, 0, 0.2)",
+      fontSize: 14
+    }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8 }}>
+        <FaGavel size={14} color="#ff9800" />
+        <strong>Dispute</strong>
+        <span style={{ marginLeft: "auto", fontSize: 12, opacity: 0.8 }}>Arbiter {shortAddr(rules.arbiter)}</span>
+      </div>
+
+      {disputes.map(dispute => {
+        const href = evidenceHref(dispute.evidenceURI);
+        return (
+          <div key={dispute.claimant} style={{ display: "flex", alignItems: "flex-start", gap: 8, marginBottom: 8 }}>
+            <div style={{ flex: 1 }}>
+              {dispute.open ? "Open" : "Last"} dispute by {shortAddr(dispute.claimant)}, {new Date(dispute.openedAt * 1000).toLocaleDateString()}:{" "}
+              {href
+                ? <a href={href} target="_blank" rel="noreferrer" style={{ color: "#ff9800" }}>{dispute.evidenceURI}</a>
+                : <span style={{ wordBreak: "break-all" }}>{dispute.evidenceURI}</span>}
+              {dispute.open
+                ? <div style={{ opacity: 0.8, fontSize: 12 }}>Awaiting the arbiter's ruling{dispute.party ? "; timeout releases are paused." : "."}</div>
+                : <div style={{ opacity: 0.8, fontSize: 12 }}>Resolved, see the project history for the ruling.</div>}
+            </div>
+            {dispute.open && isArbiter && ruling !== dispute.claimant && (
+              <button onClick={() => setRuling(dispute.claimant)} disabled={busy} style={escrowButtonStyle}>
+                Rule
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {ruling && isArbiter && (
+        <div style={{ display: "flex", alignItems: "center", gap: 12, flexWrap: "wrap", marginBottom: 8 }}>
+          <span>Ruling on {shortAddr(ruling)}:</span>
+          <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            <input type="checkbox" checked={upheld} onChange={e => setUpheld(e.target.checked)} />
+            Uphold (return the bond)
+          </label>
+          {heldInEscrow > 0n && (
+            <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              <input type="checkbox" checked={settle} onChange={e => setSettle(e.target.checked)} />
+              Settle the {format(heldInEscrow)} in escrow
+            </label>
+          )}
+          {settle && (
+            <input
+              type="number"
+              value={toWinner}
+              onChange={e => setToWinner(e.target.value)}
+              placeholder={`To winner (${project.tokenSymbol}), rest to creator`}
+              min="0"
+              step={ethers.formatUnits(1n, project.tokenDecimals)}
+              style={{ ...escrowInputStyle, minWidth: 200 }}
+            />
+          )}
+          <button onClick={submitRuling} disabled={busy} style={{ ...escrowButtonStyle, marginLeft: "auto" }}>
+            {busy ? "Submitting..." : "Resolve Dispute"}
+          </button>
+        </div>
+      )}
+
+      {canOpen && (
+        <div style={{ opacity: 0.8, fontSize: 12, marginBottom: 8 }}>
+          A ruling can only return or forfeit the dispute bond and split what is left in escrow. It cannot reverse the award or take the winner's bid bond.
+        </div>
+      )}
+      {canOpen && (
+        <div style={{ display: "flex", gap: 8 }}>
+          <input
+            type="text"
+            value={evidence}
+            onChange={e => setEvidence(e.target.value)}
+            placeholder="Evidence URI (ipfs://... or https://...)"
+            style={{ ...escrowInputStyle, flex: 1 }}
+          />
+          <button onClick={submitDispute} disabled={busy} style={escrowButtonStyle}>
+            {busy ? "Opening..." : `Open Dispute (${ethers.formatEther(rules.bond)} ETH bond)`}
+          </button>
+        </div>
+      )}
+
+      {disputes.length === 0 && !canOpen && <span style={{ opacity: 0.8 }}>No dispute has been raised.</span>}
+    </div>
+  );
+}
+
+const detailSectionStyle: React.CSSProperties = {
+  marginBottom: 24,
+  padding: 24,
+  borderRadius: 16,
+  background: "rgba(255, 255, 255, 0.05)",
+  border: "1px solid rgba(255, 255, 255, 0.1)"
+};
+
+function ProjectDetail({ chainId, project, card }: { chainId: number; project: Project; card: React.ReactNode }) {
+  const [history, setHistory] = useState<HistoryEntry[] | null>(null);
+  const [copied, setCopied] = useState(false);
+  const explorerUrl = getNetwork(chainId)?.explorerUrl;
+
+  // refreshed whenever live updates change the project
+  useEffect(() => {
+    getProjectHistory(chainId, project.id)
+      .then(setHistory)
+      .catch(e => {
+        console.error("Failed to load project history", e);
+        setHistory([]);
+      });
+  }, [chainId, project.id, project.status, project.numBids, project.awardAccepted]);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const timeline = (history ?? [])
+    .map(entry => ({ label: describeEvent(entry, project), timestamp: entry.timestamp, txHash: entry.txHash }))
+    .filter((entry): entry is { label: string; timestamp: number; txHash: string } => entry.label !== null);
+  // the deadline is a point on the timeline even though no event marks it
+  timeline.push({ label: "Bidding deadline", timestamp: project.deadline, txHash: "" });
+  timeline.sort((a, b) => a.timestamp - b.timestamp);
+  const bids = (history ?? []).filter(entry => entry.name in BID_EVENTS);
+
+  const txLink = (txHash: string) => explorerUrl && txHash
+    ? <a href={`${explorerUrl}/tx/${txHash}`} target="_blank" rel="noreferrer" style={{ color: "#00BFFF", marginLeft: 8, fontSize: 12 }}>tx</a>
+    : null;
+  const rowStyle: React.CSSProperties = { display: "flex", gap: 16, padding: "8px 0", borderBottom: "1px solid rgba(255, 255, 255, 0.05)", fontSize: 14 };
+  const timeStyle: React.CSSProperties = { opacity: 0.7, minWidth: 180 };
+
+  return (
+    <div>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 24 }}>
+        <Link to="/" style={{ color: "#00BFFF", textDecoration: "none" }}>← All projects</Link>
+        <button
+          onClick={copyLink}
+          style={{
+            padding: "8px 16px",
+            borderRadius: 8,
+            border: "1px solid rgba(255, 255, 255, 0.3)",
+            background: "transparent",
+            color: "white",
+            cursor: "pointer"
+          }}
+        >
+          {copied ? "Link copied" : "Copy link"}
+        </button>
+      </div>
+
+      <div style={{ marginBottom: 24 }}>{card}</div>
+
+      <section style={detailSectionStyle}>
+        <h3 style={{ marginTop: 0 }}>Result</h3>
+        {project.status === ProjectStatus.Awarded ? (
+          <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: "8px 24px", fontSize: 14 }}>
+            <span style={{ opacity: 0.7 }}>Winner</span><span style={{ wordBreak: "break-all" }}>{project.winner}</span>
+            <span style={{ opacity: 0.7 }}>Winning bid</span><span>{project.secondPrice && project.numBids > 1 ? "Confidential (second-price)" : formatAmount(project.lowestBid, project.decimals, project.tokenSymbol)}</span>
+            <span style={{ opacity: 0.7 }}>Amount paid</span><span>{formatAmount(project.clearingPrice, project.decimals, project.tokenSymbol)}</span>
+            {project.revealStats && (
+              <>
+                <span style={{ opacity: 0.7 }}>Highest bid</span><span>{formatAmount(project.highestBid, project.decimals, project.tokenSymbol)}</span>
+                <span style={{ opacity: 0.7 }}>Average bid</span><span>{formatAmount(project.averageBid, project.decimals, project.tokenSymbol)}</span>
+              </>
+            )}
+            <span style={{ opacity: 0.7 }}>Participants</span><span>{project.numBids}</span>
+            <span style={{ opacity: 0.7 }}>Award accepted</span><span>{project.awardAccepted ? "Yes" : "Not yet"}</span>
+            <span style={{ opacity: 0.7 }}>Paid in</span><span>{project.tokenSymbol}</span>
+          </div>
+        ) : project.status === ProjectStatus.NoAward ? (
+          <p style={{ margin: 0 }}>{project.numBids === 0 ? "No bids were placed." : "No bid met the reserve price, so nobody was awarded."}</p>
+        ) : project.status === ProjectStatus.Cancelled ? (
+          <p style={{ margin: 0 }}>The creator cancelled this tender; bidders can reclaim their bonds.</p>
+        ) : (
+          <p style={{ margin: 0 }}>Bids stay encrypted until the creator reveals the winner after the deadline.</p>
+        )}
+      </section>
+
+      <section style={detailSectionStyle}>
+        <h3 style={{ marginTop: 0 }}>Timeline</h3>
+        {history === null ? <p style={{ margin: 0, opacity: 0.7 }}>Loading events...</p> : timeline.map((entry, i) => (
+          <div key={i} style={rowStyle}>
+            <span style={timeStyle}>{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+            <span>{entry.label}{txLink(entry.txHash)}</span>
+          </div>
+        ))}
+      </section>
+
+      <section style={detailSectionStyle}>
+        <h3 style={{ marginTop: 0 }}>Bid history</h3>
+        <p style={{ marginTop: 0, fontSize: 13, opacity: 0.7 }}>Amounts are encrypted; only who bid and when is public.</p>
+        {history === null ? <p style={{ margin: 0, opacity: 0.7 }}>Loading events...</p> : bids.length === 0 ? (
+          <p style={{ margin: 0, opacity: 0.7 }}>No bids yet</p>
+        ) : bids.map((entry, i) => (
+          <div key={i} style={rowStyle}>
+            <span style={timeStyle}>{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+            <span>
+              {BID_EVENTS[entry.name]} by {shortAddr(entry.args.bidder)}
+              {entry.name === "BondRefunded" && ` (${ethers.formatEther(entry.args.amount)} ETH)`}
+              {txLink(entry.txHash)}
+            </span>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
+
 // ------------------- Create Project Modal -------------------
-function ModalCreate({ onCreate, onClose, creating }: { 
-  onCreate: (title: string, description: string, deadline: number) => void; 
+interface ProjectOptions {
+  secondPrice: boolean;
+  revealStats: boolean;
+  liveStats: boolean; // creator watches encrypted running stats
+  bond: string; // ETH
+  paymentToken: string; // ERC-20 address, NATIVE_TOKEN for ETH
+  decimals: number; // fixed-point places of every bid and the reserve, at most the token's
+  reserve: string; // payment token at `decimals` precision, empty for none
+  restricted: boolean;
+  allowlist: string[];
+  allowlistRoot: string; // Merkle root, empty for none
+  priceWeight: number;
+  criteria: Criterion[];
+}
+
+function ModalCreate({ chainId, account, onCreate, onClose, creating }: { 
+  chainId: number;
+  account: string;
+  onCreate: (title: string, description: string, deadline: number, options: ProjectOptions) => void; 
   onClose: () => void; 
   creating: boolean; 
 }) {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [deadline, setDeadline] = useState("");
+  const [secondPrice, setSecondPrice] = useState(false);
+  const [revealStats, setRevealStats] = useState(false);
+  const [liveStatsMode, setLiveStatsMode] = useState(false);
+  const [bond, setBond] = useState("");
+  const [paymentToken, setPaymentToken] = useState("");
+  const [token, setToken] = useState<TokenInfo | null>(null);
+  const [tokenError, setTokenError] = useState("");
+  const [tokenBalance, setTokenBalance] = useState<bigint | null>(null);
+  const [decimals, setDecimals] = useState(9);
+  const [reserve, setReserve] = useState("");
+  const [restricted, setRestricted] = useState(false);
+  const [allowlistText, setAllowlistText] = useState("");
+  const [allowlistRoot, setAllowlistRoot] = useState("");
+  const [priceWeight, setPriceWeight] = useState("1");
+  const [criteria, setCriteria] = useState<Criterion[]>([]);
+
+  // an empty token field means native ETH
+  useEffect(() => {
+    setToken(null);
+    setTokenError("");
+    setTokenBalance(null);
+    const address = paymentToken.trim();
+    if (address && !ethers.isAddress(address)) {
+      setTokenError("Not a valid address");
+      return;
+    }
+    let cancelled = false;
+    getTokenInfo(chainId, address || NATIVE_TOKEN)
+      .then(async info => {
+        if (cancelled) return;
+        setToken(info);
+        // bids cannot be more precise than the token they are paid in
+        setDecimals(d => Math.min(d, info.decimals));
+        if (account) {
+          const balance = await getTokenBalance(chainId, info.address, account);
+          if (!cancelled) setTokenBalance(balance);
+        }
+      })
+      .catch(() => { if (!cancelled) setTokenError("Not an ERC-20 token on this network"); });
+    return () => { cancelled = true; };
+  }, [chainId, account, paymentToken]);
+
+  const symbol = token?.symbol ?? "tokens";
+  const maxDecimals = token?.decimals ?? 18;
+  const decimalOptions = DECIMAL_OPTIONS.filter(d => d < maxDecimals).concat(Math.min(maxDecimals, 18));
+
+  const updateCriterion = (idx: number, patch: Partial<Criterion>) => {
+    setCriteria(prev => prev.map((c, i) => i === idx ? { ...c, ...patch } : c));
+  };
 
   const handleSubmit = () => {
     const deadlineTimestamp = Math.floor(new Date(deadline).getTime() / 1000);
@@ -782,7 +2433,59 @@ function ModalCreate({ onCreate, onClose, creating }: {
       alert("Please fill all fields with valid values");
       return;
     }
-    onCreate(title, description, deadlineTimestamp);
+    if (!token) {
+      alert(tokenError || "Payment token is still loading");
+      return;
+    }
+    if (bond && !(Number(bond) >= 0)) {
+      alert("Please enter a valid bond amount");
+      return;
+    }
+    if (reserve) {
+      const reserveUnits = parseAmount(reserve, decimals);
+      if (reserveUnits === null || !isValidBidAmount(reserveUnits)) {
+        alert(`Reserve price must be positive with at most ${decimals} decimal places`);
+        return;
+      }
+    }
+    let allowlist: string[] = [];
+    if (restricted) {
+      try {
+        allowlist = parseAddressList(allowlistText);
+      } catch {
+        alert("Please enter valid supplier addresses");
+        return;
+      }
+      if (allowlistRoot && !ethers.isHexString(allowlistRoot, 32)) {
+        alert("Merkle root must be a 32-byte hex string");
+        return;
+      }
+      if (allowlist.length === 0 && !allowlistRoot && !window.confirm("No suppliers are prequalified yet. Create anyway?")) {
+        return;
+      }
+    }
+    if (criteria.some(c => !c.name || !(c.weight > 0) || (c.higherIsBetter && !(c.cap > 0)))) {
+      alert("Every criterion needs a name, a positive weight and, if more is better, a cap");
+      return;
+    }
+    if (criteria.length > 0 && secondPrice) {
+      alert("Second-price award is only available for price-only tenders");
+      return;
+    }
+    onCreate(title, description, deadlineTimestamp, {
+      secondPrice,
+      revealStats,
+      liveStats: liveStatsMode,
+      bond,
+      paymentToken: token.address,
+      decimals,
+      reserve,
+      restricted,
+      allowlist,
+      allowlistRoot: restricted ? allowlistRoot : "",
+      priceWeight: Number(priceWeight) || 0,
+      criteria,
+    });
   };
 
   return (
@@ -851,7 +2554,7 @@ function ModalCreate({ onCreate, onClose, creating }: {
           />
         </div>
         
-        <div style={{ marginBottom: 24 }}>
+        <div style={{ marginBottom: 16 }}>
           <label style={{ display: "block", marginBottom: 8, fontWeight: "600" }}>Bidding Deadline</label>
           <input 
             type="datetime-local" 
@@ -869,6 +2572,313 @@ function ModalCreate({ onCreate, onClose, creating }: {
           />
         </div>
         
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "block", marginBottom: 8, fontWeight: "600" }}>Bid Bond (ETH, optional)</label>
+          <input 
+            type="number" 
+            value={bond} 
+            onChange={e => setBond(e.target.value)} 
+            placeholder="0" 
+            step="0.001"
+            min="0"
+            style={{ 
+              width: "100%", 
+              padding: 12, 
+              borderRadius: 8,
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              background: "rgba(255, 255, 255, 0.1)",
+              color: "white",
+              fontSize: "16px"
+            }}
+          />
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            Locked with every bid. Losers get it back; a winner who does not accept the award forfeits it to you.
+          </div>
+        </div>
+        
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "block", marginBottom: 8, fontWeight: "600" }}>Payment Token</label>
+          <input 
+            type="text" 
+            value={paymentToken} 
+            onChange={e => setPaymentToken(e.target.value)} 
+            placeholder="ERC-20 address, empty for ETH" 
+            style={{ 
+              width: "100%", 
+              padding: 12, 
+              borderRadius: 8,
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              background: "rgba(255, 255, 255, 0.1)",
+              color: "white",
+              fontSize: "16px"
+            }}
+          />
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            {tokenError || (token
+              ? `Bids are quoted and paid in ${token.symbol} (${token.decimals} decimals)${tokenBalance !== null ? `. Your balance: ${formatAmount(tokenBalance, token.decimals, token.symbol)}` : ""}`
+              : "Looking up token...")}
+          </div>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            Once the winner accepts, you escrow the amount owed; it is released when you confirm delivery.
+          </div>
+        </div>
+        
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "block", marginBottom: 8, fontWeight: "600" }}>Bid Precision</label>
+          <select 
+            value={decimals} 
+            onChange={e => setDecimals(Number(e.target.value))} 
+            style={{ 
+              width: "100%", 
+              padding: 12, 
+              borderRadius: 8,
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              background: "rgba(255, 255, 255, 0.1)",
+              color: "white",
+              fontSize: "16px"
+            }}
+          >
+            {decimalOptions.map(d => (
+              <option key={d} value={d} style={{ color: "black" }}>
+                {d === 0 ? `Whole ${symbol}` : `${d} decimals`}
+              </option>
+            ))}
+          </select>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            Bids are encrypted as 64-bit integers, so more decimals lower the maximum bid to {formatAmount(MAX_BID_UNITS / 10n ** BigInt(decimals), 0, symbol)}.
+          </div>
+        </div>
+        
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "block", marginBottom: 8, fontWeight: "600" }}>Reserve Price ({symbol}, optional)</label>
+          <input 
+            type="number" 
+            value={reserve} 
+            onChange={e => setReserve(e.target.value)} 
+            placeholder="No maximum" 
+            step={ethers.formatUnits(1n, decimals)}
+            min="0"
+            style={{ 
+              width: "100%", 
+              padding: 12, 
+              borderRadius: 8,
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              background: "rgba(255, 255, 255, 0.1)",
+              color: "white",
+              fontSize: "16px"
+            }}
+          />
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            Stored encrypted. If no bid is at or below it, nobody is awarded. Needs a second transaction after creation.
+          </div>
+        </div>
+        
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: "600", cursor: "pointer" }}>
+            <input 
+              type="checkbox" 
+              checked={restricted} 
+              onChange={e => setRestricted(e.target.checked)} 
+            />
+            Restrict to prequalified suppliers
+          </label>
+          {restricted && (
+            <>
+              <textarea 
+                value={allowlistText} 
+                onChange={e => setAllowlistText(e.target.value)} 
+                placeholder="Supplier addresses, separated by commas or new lines" 
+                rows={3}
+                style={{ 
+                  width: "100%", 
+                  marginTop: 8,
+                  padding: 12, 
+                  borderRadius: 8,
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  background: "rgba(255, 255, 255, 0.1)",
+                  color: "white",
+                  fontSize: "14px",
+                  resize: "vertical"
+                }}
+              />
+              <input 
+                value={allowlistRoot} 
+                onChange={e => setAllowlistRoot(e.target.value)} 
+                placeholder="Merkle root for large lists (optional)" 
+                style={{ 
+                  width: "100%", 
+                  marginTop: 8,
+                  padding: 12, 
+                  borderRadius: 8,
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  background: "rgba(255, 255, 255, 0.1)",
+                  color: "white",
+                  fontSize: "14px"
+                }}
+              />
+              <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+                Suppliers in the Merkle list prove eligibility with their proof before bidding. You can add or remove suppliers later.
+              </div>
+            </>
+          )}
+        </div>
+        
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "block", marginBottom: 8, fontWeight: "600" }}>Evaluation Criteria (optional)</label>
+          {criteria.length > 0 && (
+            <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8, fontSize: 14 }}>
+              <span style={{ flex: 1 }}>Price weight (per whole {symbol})</span>
+              <input 
+                type="number" 
+                value={priceWeight} 
+                onChange={e => setPriceWeight(e.target.value)} 
+                min="0"
+                style={{ 
+                padding: 8, 
+                borderRadius: 8,
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                background: "rgba(255, 255, 255, 0.1)",
+                color: "white",
+                fontSize: "14px",
+                width: 80
+              }}
+              />
+            </div>
+          )}
+          {criteria.map((c, idx) => (
+            <div key={idx} style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8, flexWrap: "wrap", fontSize: 14 }}>
+              <input 
+                value={c.name} 
+                onChange={e => updateCriterion(idx, { name: e.target.value })} 
+                placeholder="e.g. Delivery days" 
+                style={{ 
+                  flex: 1,
+                  padding: 8, 
+                  borderRadius: 8,
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  background: "rgba(255, 255, 255, 0.1)",
+                  color: "white",
+                  fontSize: "14px"
+                }}
+              />
+              <input 
+                type="number" 
+                value={c.weight} 
+                onChange={e => updateCriterion(idx, { weight: Number(e.target.value) })} 
+                placeholder="Weight" 
+                min="1"
+                style={{ 
+                padding: 8, 
+                borderRadius: 8,
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                background: "rgba(255, 255, 255, 0.1)",
+                color: "white",
+                fontSize: "14px",
+                width: 80
+              }}
+              />
+              <label style={{ display: "flex", alignItems: "center", gap: 4, cursor: "pointer" }}>
+                <input 
+                  type="checkbox" 
+                  checked={c.higherIsBetter} 
+                  onChange={e => updateCriterion(idx, { higherIsBetter: e.target.checked })} 
+                />
+                More is better
+              </label>
+              {c.higherIsBetter && (
+                <input 
+                  type="number" 
+                  value={c.cap} 
+                  onChange={e => updateCriterion(idx, { cap: Number(e.target.value) })} 
+                  placeholder="Cap" 
+                  min="1"
+                  style={{ 
+                padding: 8, 
+                borderRadius: 8,
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                background: "rgba(255, 255, 255, 0.1)",
+                color: "white",
+                fontSize: "14px",
+                width: 80
+              }}
+                />
+              )}
+              <button 
+                onClick={() => setCriteria(prev => prev.filter((_, i) => i !== idx))}
+                style={{
+                  padding: "4px 8px",
+                  borderRadius: 4,
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  background: "transparent",
+                  color: "white",
+                  cursor: "pointer"
+                }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button 
+            onClick={() => setCriteria(prev => [...prev, { name: "", weight: 1, higherIsBetter: false, cap: 0 }])}
+            style={{
+              padding: "6px 12px",
+              borderRadius: 8,
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              background: "rgba(255, 255, 255, 0.1)",
+              color: "white",
+              cursor: "pointer",
+              fontSize: "14px"
+            }}
+          >
+            + Add criterion
+          </button>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            Bidders submit an encrypted value per criterion; the lowest weighted score wins instead of the lowest price.
+          </div>
+        </div>
+        
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: "600", cursor: "pointer" }}>
+            <input 
+              type="checkbox" 
+              checked={secondPrice} 
+              onChange={e => setSecondPrice(e.target.checked)} 
+            />
+            Second-price (Vickrey) award
+          </label>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            The lowest bidder wins but is paid the second-lowest bid.
+          </div>
+        </div>
+        
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: "600", cursor: "pointer" }}>
+            <input 
+              type="checkbox" 
+              checked={revealStats} 
+              onChange={e => setRevealStats(e.target.checked)} 
+            />
+            Publish highest / average bid on award
+          </label>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            Otherwise only the winner and winning amount are ever decrypted.
+          </div>
+        </div>
+        
+        <div style={{ marginBottom: 24 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: "600", cursor: "pointer" }}>
+            <input 
+              type="checkbox" 
+              checked={liveStatsMode} 
+              onChange={e => setLiveStatsMode(e.target.checked)} 
+            />
+            Let me watch live encrypted statistics
+          </label>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+            You can privately decrypt the running lowest, highest and average bid while bidding is open. Bidders are shown that this mode is on, and you can no longer end bidding early except by cancelling.
+          </div>
+        </div>
+        
         <div style={{ display: "flex", justifyContent: "flex-end", gap: 12 }}>
           <button 
             onClick={onClose}
@@ -1,10 +1,62 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/Tendering.json";
-import configJson from "./config.json";
+import abiJson from "./abi/FHETendering.json";
+import escrowAbiJson from "./abi/TenderEscrow.json";
+import { getNetwork } from "./networks";
+
+export type DeploymentKind = "plain" | "fhe" | "plainEscrow" | "fheEscrow";
+
+// Entry of deployments/<network>.json, written by the deploy scripts
+export interface DeploymentRecord {
+  kind: DeploymentKind;
+  contractName: string;
+  address: string;
+  chainId: number;
+  blockNumber: number;
+  txHash: string;
+  deployer: string;
+  abiHash: string;
+  deployedAt: string;
+}
+
+interface DeploymentRegistry {
+  network: string;
+  chainId: number;
+  contracts: Partial<Record<DeploymentKind, DeploymentRecord>>;
+}
+
+const registries = import.meta.glob("../../../deployments/*.json", { eager: true, import: "default" }) as Record<string, DeploymentRegistry>;
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const ESCROW_ABI = (escrowAbiJson as any).abi || escrowAbiJson;
+
+// Mirrors FHETendering.Status; read it through getStatus, which accounts for the deadline
+export enum ProjectStatus { Draft, Open, Closed, Decrypting, Awarded, Cancelled, NoAward }
+
+const abiHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(ABI)));
+const warnedChains = new Set<number>();
+
+export function getDeployments(chainId: number): Partial<Record<DeploymentKind, DeploymentRecord>> {
+  const network = getNetwork(chainId);
+  if (!network) return {};
+  return Object.values(registries).find(r => r.network === network.registry && r.chainId === chainId)?.contracts ?? {};
+}
+
+// Bids are encrypted client-side, so the app talks to the FHETendering deployment
+export function getContractAddress(chainId: number): string {
+  const record = getDeployments(chainId).fhe;
+  if (!record) return "";
+  if (record.abiHash !== abiHash && !warnedChains.has(chainId)) {
+    warnedChains.add(chainId);
+    console.warn(`abi/FHETendering.json differs from the ABI deployed on ${getNetwork(chainId)!.name}; redeploy or copy the matching artifact`);
+  }
+  return record.address;
+}
+
+// Awarded projects are paid through the TenderEscrow deployed beside FHETendering
+export function getEscrowAddress(chainId: number): string {
+  return getDeployments(chainId).fheEscrow?.address ?? "";
+}
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,48 +70,134 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// Deployed at the same address on most public chains, but not on a fresh Hardhat node
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const multicallInterface = new ethers.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+]);
+
+interface PendingCall {
+  tx: ethers.TransactionRequest;
+  resolve: (data: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Contract runner that queues the eth_calls issued in one tick and sends them through
+// Multicall3 in groups of batchSize, or one after another when no aggregator is deployed
+function createBatchedRunner(provider: ethers.JsonRpcProvider, batchSize: number): ethers.ContractRunner {
+  let queue: PendingCall[] = [];
+  let multicallAvailable: Promise<boolean> | null = null;
+
+  const hasMulticall = () => {
+    multicallAvailable ??= provider.getCode(MULTICALL3_ADDRESS).then(code => code !== "0x", () => false);
+    return multicallAvailable;
+  };
+
+  const callBatch = async (batch: PendingCall[]) => {
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+      const data = await provider.call({
+        to: MULTICALL3_ADDRESS,
+        data: multicallInterface.encodeFunctionData("aggregate3", [
+          batch.map(c => ({ target: c.tx.to, allowFailure: true, callData: c.tx.data })),
+        ]),
+      });
+      const [results] = multicallInterface.decodeFunctionResult("aggregate3", data);
+      results.forEach((r: any, i: number) => {
+        if (r.success) {
+          batch[i].resolve(r.returnData);
+        } else {
+          // same error shape as a direct call, so Contract still decodes the revert reason
+          batch[i].reject(ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+            action: "call",
+            data: r.returnData,
+            reason: null,
+            transaction: { to: batch[i].tx.to as string, data: batch[i].tx.data as string },
+            invocation: null,
+            revert: null,
+          }));
+        }
       });
-      
+    } catch (e) {
+      batch.forEach(c => c.reject(e));
+    }
+  };
+
+  const flush = async () => {
+    const calls = queue;
+    queue = [];
+    if (calls.length > 1 && await hasMulticall()) {
+      for (let i = 0; i < calls.length; i += batchSize) {
+        await callBatch(calls.slice(i, i + batchSize));
+      }
+      return;
+    }
+    for (const c of calls) {
+      await provider.call(c.tx).then(c.resolve, c.reject);
+    }
+  };
+
+  return {
+    provider,
+    call: tx => new Promise<string>((resolve, reject) => {
+      if (queue.length === 0) setTimeout(flush, 0);
+      queue.push({ tx, resolve, reject });
+    }),
+  };
+}
+
+const readProviders = new Map<number, ethers.JsonRpcProvider>();
+const readRunners = new Map<string, ethers.ContractRunner>();
+
+export const getReadProvider = async (chainId: number) => {
+  const cached = readProviders.get(chainId);
+  if (cached) return cached;
+
+  const network = getNetwork(chainId);
+  if (!network) {
+    throw new Error(`Unsupported chain ${chainId}`);
+  }
+
+  for (const url of network.rpcUrls) {
+    try {
+      const provider = new ethers.JsonRpcProvider(url, chainId, { staticNetwork: true });
+
       const blockNumber = await Promise.race([
         provider.getBlockNumber(),
-        new Promise((_, reject) => 
+        new Promise((_, reject) =>
           setTimeout(() => reject(new Error("RPC timeout")), 10000)
         )
       ]);
-      
+
       console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
+      readProviders.set(chainId, provider);
       return provider;
     } catch (error) {
       console.warn(`RPC ${url} failed: ${error.message}`);
     }
   }
-  
-  throw new Error("All RPC providers failed");
+
+  throw new Error(`All ${network.name} RPC providers failed`);
 };
 
-export async function getContractReadOnly() {
+/**
+ * Read-only contract whose view calls are batched through Multicall3; issue them together
+ * (e.g. with Promise.all) to share a round trip. batchSize defaults to the network's setting.
+ */
+export async function getContractReadOnly(chainId: number, batchSize = getNetwork(chainId)?.multicallBatchSize ?? 1) {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const address = getContractAddress(chainId);
+    if (!address) {
+      console.warn(`No FHETendering deployment recorded for chain ${chainId}`);
+      return null;
+    }
+    const provider = await getReadProvider(chainId);
+    const contract = new ethers.Contract(address, ABI, getReadRunner(provider, chainId, batchSize));
+
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
-    
+
     return contract;
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
@@ -67,14 +205,37 @@ export async function getContractReadOnly() {
   }
 }
 
+/** Read-only TenderEscrow sharing the batched runner, or null without a deployment */
+export async function getEscrowReadOnly(chainId: number) {
+  const address = getEscrowAddress(chainId);
+  if (!address) return null;
+  const provider = await getReadProvider(chainId);
+  return new ethers.Contract(address, ESCROW_ABI, getReadRunner(provider, chainId, getNetwork(chainId)?.multicallBatchSize ?? 1));
+}
+
+function getReadRunner(provider: ethers.JsonRpcProvider, chainId: number, batchSize: number) {
+  const runnerKey = `${chainId}:${batchSize}`;
+  let runner = readRunners.get(runnerKey);
+  if (!runner) {
+    runner = createBatchedRunner(provider, batchSize);
+    readRunners.set(runnerKey, runner);
+  }
+  return runner;
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const { chainId } = await provider.getNetwork();
+    const address = getContractAddress(Number(chainId));
+    if (!address) {
+      throw new Error(`No FHETendering deployment recorded for chain ${chainId}`);
+    }
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(address, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -85,3 +246,8 @@ export async function getContractWithSigner() {
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
+
+// Split a pasted list of addresses; throws on anything that is not an address
+export function parseAddressList(text: string) {
+  return text.split(/[\s,;]+/).filter(Boolean).map(a => ethers.getAddress(a));
+}
@@ -0,0 +1,138 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+
+// bids are euint64 fixed-point amounts; criterion values stay euint32
+const MAX_UINT64 = 2n ** 64n - 1n;
+const MAX_UINT32 = 2 ** 32 - 1;
+
+// Chains with a Zama relayer; others (e.g. a plain Hardhat node) can read but not encrypt
+const RELAYER_CONFIGS: Record<number, typeof SepoliaConfig> = {
+  11155111: SepoliaConfig,
+};
+
+const instancePromises = new Map<number, Promise<FhevmInstance>>();
+
+export function supportsFhe(chainId: number) {
+  return chainId in RELAYER_CONFIGS;
+}
+
+// The relayer SDK loads its WASM once per page, so each chain's instance is shared by every caller
+export async function getFhevmInstance(network: any = (window as any).ethereum): Promise<FhevmInstance> {
+  const chainId = Number(await network.request({ method: "eth_chainId" }));
+  const relayerConfig = RELAYER_CONFIGS[chainId];
+  if (!relayerConfig) {
+    throw new Error(`No FHE relayer is available on chain ${chainId}`);
+  }
+  let instancePromise = instancePromises.get(chainId);
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      await initSDK();
+      return createInstance({ ...relayerConfig, network });
+    })();
+    instancePromises.set(chainId, instancePromise);
+    instancePromise.catch(() => {
+      instancePromises.delete(chainId);
+    });
+  }
+  return instancePromise;
+}
+
+// amount in the project's base units, e.g. ethers.parseUnits(input, project.decimals)
+export function isValidBidAmount(amount: bigint) {
+  return amount > 0n && amount <= MAX_UINT64;
+}
+
+// Encrypt a bid amount in the browser for FHETendering.placeEncryptedBid
+export async function encryptBid(contractAddress: string, userAddress: string, amount: bigint, network?: any) {
+  const { handles, inputProof } = await encryptValues(contractAddress, userAddress, amount, [], network);
+  return { handle: handles[0], inputProof };
+}
+
+// Encrypt a price plus one value per criterion under a single proof for FHETendering.placeScoredBid
+export async function encryptScoredBid(
+  contractAddress: string,
+  userAddress: string,
+  amount: bigint,
+  criteriaValues: number[],
+  network?: any
+) {
+  const { handles, inputProof } = await encryptValues(contractAddress, userAddress, amount, criteriaValues, network);
+  return { handle: handles[0], valueHandles: handles.slice(1), inputProof };
+}
+
+async function encryptValues(contractAddress: string, userAddress: string, amount: bigint, criteriaValues: number[], network?: any) {
+  if (!isValidBidAmount(amount)) {
+    throw new Error("Bid must be positive and fit in 64 bits at the project's precision");
+  }
+  for (const v of criteriaValues) {
+    if (!Number.isInteger(v) || v < 0 || v > MAX_UINT32) {
+      throw new Error(`Criterion values must be whole numbers between 0 and ${MAX_UINT32}`);
+    }
+  }
+  const instance = await getFhevmInstance(network);
+  const input = instance.createEncryptedInput(contractAddress, ethers.getAddress(userAddress));
+  input.add64(amount);
+  criteriaValues.forEach(v => input.add32(v));
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+const DECRYPT_PERMIT_DAYS = 1;
+
+interface DecryptPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+}
+
+// one EIP-712 signature per wallet and contract covers every handle for DECRYPT_PERMIT_DAYS
+const permits = new Map<string, DecryptPermit>();
+
+async function getDecryptPermit(instance: FhevmInstance, contractAddress: string, signer: ethers.Signer, userAddress: string) {
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const cached = permits.get(key);
+  const now = Math.floor(Date.now() / 1000);
+  if (cached && now < cached.startTimestamp + DECRYPT_PERMIT_DAYS * 86400 - 60) {
+    return cached;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, DECRYPT_PERMIT_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  const permit = { publicKey, privateKey, signature, startTimestamp: now };
+  permits.set(key, permit);
+  return permit;
+}
+
+// Decrypt handles the connected wallet has been granted access to (e.g. its own bid)
+export async function userDecryptValues(contractAddress: string, handles: string[], signer: ethers.Signer, network?: any) {
+  const instance = await getFhevmInstance(network);
+  const userAddress = await signer.getAddress();
+  const permit = await getDecryptPermit(instance, contractAddress, signer, userAddress);
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    permit.startTimestamp,
+    DECRYPT_PERMIT_DAYS
+  );
+  return handles.map(handle => BigInt(results[handle] as bigint));
+}
+
+export async function userDecryptValue(contractAddress: string, handle: string, signer: ethers.Signer, network?: any) {
+  const [value] = await userDecryptValues(contractAddress, [handle], signer, network);
+  return value;
+}
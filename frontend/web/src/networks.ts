@@ -0,0 +1,52 @@
+// networks.ts
+const env = import.meta.env;
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  // Name of the deployments/<registry>.json file holding this chain's contract addresses
+  registry: string;
+  // Public read RPCs, tried in order
+  rpcUrls: string[];
+  // Block range per eth_getLogs request when indexing projects; public RPCs cap it
+  logChunkSize: number;
+  // View calls per Multicall3 request
+  multicallBatchSize: number;
+  // WebSocket RPC for live log subscriptions; without one the app polls for new logs
+  wsUrl?: string;
+  explorerUrl?: string;
+}
+
+// Add an entry here (and deploy with --network <registry>) to support another chain
+export const NETWORKS: Record<number, NetworkConfig> = {
+  31337: {
+    chainId: 31337,
+    name: "Hardhat (localhost)",
+    registry: "localhost",
+    rpcUrls: [env.VITE_LOCALHOST_RPC_URL || "http://127.0.0.1:8545"],
+    logChunkSize: 10000,
+    multicallBatchSize: 100,
+    wsUrl: env.VITE_LOCALHOST_WS_URL || "ws://127.0.0.1:8545",
+  },
+  11155111: {
+    chainId: 11155111,
+    name: "Sepolia",
+    registry: "sepolia",
+    rpcUrls: [
+      env.VITE_SEPOLIA_RPC_URL,
+      "https://sepolia.drpc.org",
+      "https://ethereum-sepolia-rpc.publicnode.com",
+    ].filter(Boolean),
+    logChunkSize: 5000,
+    multicallBatchSize: 50,
+    wsUrl: env.VITE_SEPOLIA_WS_URL,
+    explorerUrl: "https://sepolia.etherscan.io",
+  },
+};
+
+// Chain used for reads before a wallet is connected
+export const DEFAULT_CHAIN_ID = Number(env.VITE_DEFAULT_CHAIN_ID) || 11155111;
+
+export function getNetwork(chainId: number): NetworkConfig | undefined {
+  return NETWORKS[chainId];
+}
@@ -0,0 +1,514 @@
+// projectIndex.ts
+import { ethers } from "ethers";
+import { ABI, ESCROW_ABI, getContractAddress, getContractReadOnly, getDeployments, getEscrowAddress, getReadProvider, ProjectStatus } from "./contract";
+import { getNetwork } from "./networks";
+import { NATIVE_TOKEN } from "./tokens";
+
+export interface Criterion {
+  name: string;
+  weight: number;
+  higherIsBetter: boolean;
+  cap: number;
+}
+
+interface BidderState {
+  active: boolean;
+  bond: bigint;
+}
+
+// Project state as rebuilt from FHETendering logs
+export interface IndexedProject {
+  id: number;
+  creator: string;
+  title: string;
+  description: string;
+  deadline: number;
+  // status as stored on chain; see effectiveStatus for the deadline rule
+  status: ProjectStatus;
+  secondPrice: boolean;
+  revealStats: boolean;
+  liveStats: boolean;
+  hasReserve: boolean;
+  restricted: boolean;
+  winner: string;
+  // bid amounts are fixed-point with `decimals` places
+  decimals: number;
+  lowestBid: bigint;
+  clearingPrice: bigint;
+  highestBid: bigint;
+  numBids: number;
+  averageBid: bigint;
+  bondAmount: bigint;
+  awardedAt: number;
+  awardAccepted: boolean;
+  // latest winner decryption request; declareWinner may be retried DECRYPTION_TIMEOUT after it
+  decryptionRequestedAt: number;
+  // settlement currency, NATIVE_TOKEN for ETH; payment itself goes through TenderEscrow
+  paymentToken: string;
+  tokenDecimals: number;
+  priceWeight: number;
+  criteria: Criterion[];
+  // keyed by lower-cased address
+  bidders: Record<string, BidderState>;
+  allowlist: Record<string, boolean>;
+}
+
+interface IndexState {
+  version: number;
+  lastBlock: number;
+  projects: Record<number, IndexedProject>;
+}
+
+// Bump whenever IndexedProject or the reducer changes so stale caches are rebuilt
+const INDEX_VERSION = 5;
+const DB_NAME = "fhe-tendering";
+const STORE = "projectIndex";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function readCache<T>(key: string): Promise<T | undefined> {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE).objectStore(STORE).get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    console.warn("Project cache unavailable", e);
+    return undefined;
+  }
+}
+
+async function writeCache(key: string, state: unknown) {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, "readwrite");
+      tx.objectStore(STORE).put(state, key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.warn("Failed to cache projects", e);
+  }
+}
+
+// Mirrors FHETendering.getStatus: an open project stops taking bids at its deadline
+export function effectiveStatus(project: IndexedProject, now = Date.now() / 1000): ProjectStatus {
+  if (project.status === ProjectStatus.Open && now >= project.deadline) {
+    return ProjectStatus.Closed;
+  }
+  return project.status;
+}
+
+export function bidderState(project: IndexedProject, account: string): BidderState {
+  return project.bidders[account.toLowerCase()] ?? { active: false, bond: 0n };
+}
+
+export function isQualified(project: IndexedProject, account: string) {
+  return !project.restricted || !!project.allowlist[account.toLowerCase()];
+}
+
+function newProject(id: number, creator: string, deadline: number, secondPrice: boolean): IndexedProject {
+  return {
+    id,
+    creator,
+    title: "",
+    description: "",
+    deadline,
+    status: ProjectStatus.Draft,
+    secondPrice,
+    revealStats: false,
+    liveStats: false,
+    hasReserve: false,
+    restricted: false,
+    winner: ethers.ZeroAddress,
+    decimals: 0,
+    lowestBid: 0n,
+    clearingPrice: 0n,
+    highestBid: 0n,
+    numBids: 0,
+    averageBid: 0n,
+    bondAmount: 0n,
+    awardedAt: 0,
+    awardAccepted: false,
+    decryptionRequestedAt: 0,
+    paymentToken: NATIVE_TOKEN,
+    tokenDecimals: 18,
+    priceWeight: 1,
+    criteria: [],
+    bidders: {},
+    allowlist: {},
+  };
+}
+
+function applyEvent(projects: Record<number, IndexedProject>, ev: ethers.EventLog, blockTimes: Map<number, number>) {
+  const args = ev.args;
+  const id = Number(args.projectId);
+  if (ev.eventName === "ProjectCreated") {
+    projects[id] = newProject(id, args.creator, Number(args.deadline), args.secondPrice);
+    return;
+  }
+  const p = projects[id];
+  if (!p) return;
+
+  switch (ev.eventName) {
+    case "StatusChanged":
+      p.status = Number(args.status);
+      if (p.status === ProjectStatus.NoAward) p.awardedAt = blockTimes.get(ev.blockNumber)!;
+      if (p.status === ProjectStatus.Decrypting) p.decryptionRequestedAt = blockTimes.get(ev.blockNumber)!;
+      break;
+    case "ReservePriceSet":
+      p.hasReserve = true;
+      break;
+    case "LiveStatsEnabled":
+      p.liveStats = true;
+      break;
+    case "AllowlistUpdated":
+      p.allowlist[args.bidder.toLowerCase()] = args.allowed;
+      break;
+    case "EncryptedBidPlaced":
+      // the bond is fixed per project and must be sent in full with the bid
+      p.bidders[args.bidder.toLowerCase()] = { active: true, bond: p.bondAmount };
+      p.numBids++;
+      break;
+    case "EncryptedBidWithdrawn":
+      p.bidders[args.bidder.toLowerCase()] = { ...bidderState(p, args.bidder), active: false };
+      p.numBids--;
+      break;
+    case "WinnerDeclared":
+      p.winner = args.winner;
+      p.lowestBid = args.lowestBidPlain;
+      p.clearingPrice = args.clearingPricePlain;
+      p.highestBid = args.highestBidPlain;
+      p.averageBid = args.averageBidPlain;
+      p.awardedAt = blockTimes.get(ev.blockNumber)!;
+      break;
+    case "AwardAccepted":
+      p.awardAccepted = true;
+      break;
+    case "BondRefunded":
+    case "BondForfeited":
+      // second argument is the bidder (or the forfeiting winner)
+      p.bidders[args[1].toLowerCase()] = { ...bidderState(p, args[1]), bond: 0n };
+      break;
+  }
+}
+
+// Settlement events record the block timestamp as awardedAt, decryption requests as decryptionRequestedAt
+function needsBlockTime(log: ethers.EventLog) {
+  return log.eventName === "WinnerDeclared"
+    || (log.eventName === "StatusChanged" && [ProjectStatus.NoAward, ProjectStatus.Decrypting].includes(Number(log.args.status)));
+}
+
+type ProjectDetails = Pick<IndexedProject, "title" | "description" | "decimals" | "paymentToken" | "tokenDecimals" | "revealStats" | "restricted" | "bondAmount" | "criteria" | "priceWeight">;
+
+// Set at creation and never changed afterwards, but not part of any event
+async function loadDetails(contract: ethers.Contract, id: number): Promise<ProjectDetails> {
+  const [raw, criteria, priceWeight] = await Promise.all([
+    contract.projects(id),
+    contract.getCriteria(id),
+    contract.priceWeights(id),
+  ]);
+  return {
+    title: raw.title,
+    description: raw.description,
+    decimals: Number(raw.decimals),
+    paymentToken: raw.paymentToken,
+    tokenDecimals: Number(raw.tokenDecimals),
+    revealStats: raw.revealStats,
+    restricted: raw.restricted,
+    bondAmount: raw.bondAmount,
+    criteria: criteria.map((c: any) => ({
+      name: c.name,
+      weight: Number(c.weight),
+      higherIsBetter: c.higherIsBetter,
+      cap: Number(c.cap),
+    })),
+    priceWeight: criteria.length > 0 ? Number(priceWeight) : 1,
+  };
+}
+
+/**
+ * Rebuild project state from contract logs, scanning only blocks after the cached
+ * head in chunks of the network's logChunkSize.
+ */
+export async function syncProjects(chainId: number): Promise<IndexedProject[]> {
+  const contract = await getContractReadOnly(chainId);
+  const network = getNetwork(chainId);
+  if (!contract || !network) return [];
+  const provider = contract.runner!.provider!;
+  const address = await contract.getAddress();
+  const deployBlock = getDeployments(chainId).fhe?.blockNumber ?? 0;
+
+  const key = `${chainId}:${address.toLowerCase()}`;
+  const head = await provider.getBlockNumber();
+  let state = await readCache<IndexState>(key);
+  // a restarted local node starts again below the cached head
+  if (!state || state.version !== INDEX_VERSION || state.lastBlock > head) {
+    state = { version: INDEX_VERSION, lastBlock: deployBlock - 1, projects: {} };
+  }
+
+  for (let from = state.lastBlock + 1; from <= head; from += network.logChunkSize) {
+    const to = Math.min(from + network.logChunkSize - 1, head);
+    const logs = (await contract.queryFilter("*", from, to))
+      .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog);
+
+    const blockTimes = new Map<number, number>();
+    for (const blockNumber of new Set(logs.filter(needsBlockTime).map(log => log.blockNumber))) {
+      const block = await provider.getBlock(blockNumber);
+      blockTimes.set(blockNumber, block!.timestamp);
+    }
+
+    // fetched together so the reads share Multicall3 batches
+    const createdIds = logs.filter(log => log.eventName === "ProjectCreated").map(log => Number(log.args.projectId));
+    const details = await Promise.all(createdIds.map(id => loadDetails(contract, id)));
+
+    for (const log of logs) {
+      applyEvent(state.projects, log, blockTimes);
+      // later events of the same project (e.g. bids and their bonds) need the details
+      if (log.eventName === "ProjectCreated") {
+        const id = Number(log.args.projectId);
+        Object.assign(state.projects[id], details[createdIds.indexOf(id)]);
+      }
+    }
+    state.lastBlock = to;
+    // saved per chunk so an interrupted first scan resumes where it stopped
+    await writeCache(key, state);
+  }
+
+  return Object.values(state.projects).sort((a, b) => a.id - b.id);
+}
+
+const POLL_INTERVAL_MS = 15000;
+const WS_CONNECT_TIMEOUT_MS = 5000;
+const WS_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Report the ids of projects touched by new contract logs, via a WebSocket subscription
+ * when the network has one and by polling otherwise. A dropped WebSocket falls back to
+ * polling and is reconnected in the background. Returns a function that stops watching.
+ */
+export function watchProjects(chainId: number, onActivity: (projectIds: number[]) => void): () => void {
+  const network = getNetwork(chainId);
+  const address = getContractAddress(chainId);
+  if (!network || !address) return () => {};
+
+  const iface = new ethers.Interface(ABI);
+  const report = (logs: ethers.Log[]) => {
+    const ids = new Set<number>();
+    for (const log of logs) {
+      const parsed = iface.parseLog(log);
+      if (parsed?.args.projectId !== undefined) ids.add(Number(parsed.args.projectId));
+    }
+    if (ids.size > 0) onActivity([...ids]);
+  };
+
+  let stopped = false;
+  let stop = () => {};
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  // logs up to here have been reported; a block reported twice only repeats the activity
+  let lastBlock: number | undefined;
+
+  // chunked like syncProjects and advanced per chunk, so a failed range is retried on the next call
+  const catchUp = async (provider: ethers.Provider, head: number) => {
+    if (lastBlock === undefined) {
+      lastBlock = head;
+      return;
+    }
+    for (let from = lastBlock + 1; from <= head; from += network.logChunkSize) {
+      const to = Math.min(from + network.logChunkSize - 1, head);
+      report(await provider.getLogs({ address, fromBlock: from, toBlock: to }));
+      lastBlock = to;
+    }
+  };
+
+  const poll = async () => {
+    const provider = await getReadProvider(chainId);
+    let busy = false;
+    const tick = async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        await catchUp(provider, await provider.getBlockNumber());
+      } catch (e) {
+        console.warn("Polling for contract logs failed", e);
+      } finally {
+        busy = false;
+      }
+    };
+    await tick();
+    const timer = setInterval(tick, POLL_INTERVAL_MS);
+    stop = () => clearInterval(timer);
+  };
+
+  const subscribe = async (wsUrl: string) => {
+    // opened here to watch for it closing, which ethers does not handle
+    const socket = new WebSocket(wsUrl);
+    const provider = new ethers.WebSocketProvider(socket, chainId, { staticNetwork: true });
+    try {
+      const head = await Promise.race([
+        provider.getBlockNumber(),
+        new Promise<never>((_, reject) => setTimeout(() => reject(new Error("WebSocket timeout")), WS_CONNECT_TIMEOUT_MS)),
+      ]);
+      // logs missed while disconnected
+      await catchUp(provider, head);
+    } catch (e) {
+      provider.destroy();
+      throw e;
+    }
+    await provider.on({ address }, (log: ethers.Log) => report([log]));
+    // a block's logs may arrive after the block itself, so a later catch-up starts one block back
+    await provider.on("block", (blockNumber: number) => { lastBlock = blockNumber - 1; });
+    socket.addEventListener("close", () => {
+      if (stopped) return;
+      console.warn(`WebSocket ${wsUrl} closed, polling for updates until it reconnects`);
+      provider.destroy();
+      fallBack(wsUrl).catch(e => console.error("Failed to watch for project updates", e));
+    });
+    stop = () => provider.destroy();
+  };
+
+  const fallBack = async (wsUrl: string) => {
+    await poll();
+    // stopped during the first poll, after the cleanup ran the previous stop
+    if (stopped) {
+      stop();
+      return;
+    }
+    const reconnect = async () => {
+      if (stopped) return;
+      const stopPolling = stop;
+      try {
+        await subscribe(wsUrl);
+        stopPolling();
+        // stopped while connecting
+        if (stopped) stop();
+      } catch {
+        reconnectTimer = setTimeout(reconnect, WS_RECONNECT_DELAY_MS);
+      }
+    };
+    reconnectTimer = setTimeout(reconnect, WS_RECONNECT_DELAY_MS);
+  };
+
+  (async () => {
+    if (network.wsUrl) {
+      try {
+        await subscribe(network.wsUrl);
+      } catch (e) {
+        console.warn(`WebSocket ${network.wsUrl} unavailable, polling for updates instead`, e);
+        await fallBack(network.wsUrl);
+      }
+    } else {
+      await poll();
+    }
+    // stopped while connecting
+    if (stopped) stop();
+  })().catch(e => console.error("Failed to watch for project updates", e));
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    stop();
+  };
+}
+
+export interface HistoryEntry {
+  name: string;
+  args: ethers.Result;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+// raw logs, since parsed ethers Results do not survive IndexedDB
+interface CachedLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+interface HistoryState {
+  version: number;
+  lastBlock: number;
+  logs: CachedLog[];
+}
+
+/**
+ * Every contract event of one project, oldest first, including its TenderEscrow events.
+ * All events index projectId first, so a single topic filter selects them. Cached per
+ * project like the index, so reopening a project only scans the blocks since last time.
+ */
+export async function getProjectHistory(chainId: number, projectId: number): Promise<HistoryEntry[]> {
+  const network = getNetwork(chainId);
+  const address = getContractAddress(chainId);
+  if (!network || !address) return [];
+  const provider = await getReadProvider(chainId);
+  const iface = new ethers.Interface(ABI);
+  const escrowIface = new ethers.Interface(ESCROW_ABI);
+  const addresses = [address, getEscrowAddress(chainId)].filter(Boolean);
+  const projectTopic = ethers.zeroPadValue(ethers.toBeHex(projectId), 32);
+
+  const key = `${chainId}:${address.toLowerCase()}:history:${projectId}`;
+  const head = await provider.getBlockNumber();
+  let state = await readCache<HistoryState>(key);
+  // a restarted local node starts again below the cached head
+  if (!state || state.version !== INDEX_VERSION || state.lastBlock > head) {
+    state = { version: INDEX_VERSION, lastBlock: (getDeployments(chainId).fhe?.blockNumber ?? 0) - 1, logs: [] };
+  }
+
+  if (state.lastBlock < head) {
+    const logs: ethers.Log[] = [];
+    for (let from = state.lastBlock + 1; from <= head; from += network.logChunkSize) {
+      const to = Math.min(from + network.logChunkSize - 1, head);
+      logs.push(...await provider.getLogs({ address: addresses, topics: [null, projectTopic], fromBlock: from, toBlock: to }));
+    }
+
+    const blockTimes = new Map<number, number>();
+    await Promise.all([...new Set(logs.map(log => log.blockNumber))].map(async blockNumber => {
+      blockTimes.set(blockNumber, (await provider.getBlock(blockNumber))!.timestamp);
+    }));
+
+    state.logs.push(...logs.map(log => ({
+      address: log.address,
+      topics: [...log.topics],
+      data: log.data,
+      blockNumber: log.blockNumber,
+      timestamp: blockTimes.get(log.blockNumber)!,
+      txHash: log.transactionHash,
+    })));
+    state.lastBlock = head;
+    await writeCache(key, state);
+  }
+
+  return state.logs.flatMap(log => {
+    const parsed = (log.address.toLowerCase() === address.toLowerCase() ? iface : escrowIface).parseLog(log);
+    if (!parsed) return [];
+    return [{
+      name: parsed.name,
+      args: parsed.args,
+      blockNumber: log.blockNumber,
+      timestamp: log.timestamp,
+      txHash: log.txHash,
+    }];
+  });
+}
@@ -0,0 +1,38 @@
+// router.tsx
+import React, { useEffect, useState } from "react";
+
+// Minimal History API routing; the host serves index.html for every path (see vercel.json)
+export function navigate(path: string) {
+  if (path === window.location.pathname) return;
+  window.history.pushState(null, "", path);
+  window.dispatchEvent(new PopStateEvent("popstate"));
+  window.scrollTo(0, 0);
+}
+
+export function usePathname() {
+  const [pathname, setPathname] = useState(window.location.pathname);
+  useEffect(() => {
+    const onPopState = () => setPathname(window.location.pathname);
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+  return pathname;
+}
+
+export const projectPath = (projectId: number) => `/project/${projectId}`;
+
+// Project id of a /project/:id path, or null for any other route
+export function matchProjectPath(pathname: string): number | null {
+  const match = /^\/project\/(\d+)\/?$/.exec(pathname);
+  return match ? Number(match[1]) : null;
+}
+
+// Anchor that navigates client-side but still opens in a new tab with a modifier key
+export function Link({ to, style, children }: { to: string; style?: React.CSSProperties; children: React.ReactNode }) {
+  const onClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+  };
+  return <a href={to} onClick={onClick} style={style}>{children}</a>;
+}
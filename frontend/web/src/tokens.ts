@@ -0,0 +1,54 @@
+// tokens.ts
+import { ethers } from "ethers";
+import { getReadProvider } from "./contract";
+
+// Projects store address(0) as their payment token when they settle in ETH
+export const NATIVE_TOKEN = ethers.ZeroAddress;
+
+export const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+const NATIVE_INFO: TokenInfo = { address: NATIVE_TOKEN, symbol: "ETH", decimals: 18 };
+
+// symbol and decimals never change, so lookups are cached for the session
+const tokenInfos = new Map<string, Promise<TokenInfo>>();
+
+export const isNativeToken = (token: string) => !token || token === NATIVE_TOKEN;
+
+export function getTokenInfo(chainId: number, token: string): Promise<TokenInfo> {
+  if (isNativeToken(token)) return Promise.resolve(NATIVE_INFO);
+  const key = `${chainId}:${token.toLowerCase()}`;
+  let info = tokenInfos.get(key);
+  if (!info) {
+    info = (async () => {
+      const erc20 = new ethers.Contract(token, ERC20_ABI, await getReadProvider(chainId));
+      const [symbol, decimals] = await Promise.all([
+        // a few old tokens return bytes32 or nothing; fall back to the address
+        erc20.symbol().catch(() => `${token.substring(0, 8)}...`),
+        erc20.decimals(),
+      ]);
+      return { address: ethers.getAddress(token), symbol, decimals: Number(decimals) };
+    })();
+    // drop failures so a bad address can be retried once corrected
+    info.catch(() => tokenInfos.delete(key));
+    tokenInfos.set(key, info);
+  }
+  return info;
+}
+
+export async function getTokenBalance(chainId: number, token: string, account: string): Promise<bigint> {
+  const provider = await getReadProvider(chainId);
+  if (isNativeToken(token)) return provider.getBalance(account);
+  return new ethers.Contract(token, ERC20_ABI, provider).balanceOf(account);
+}
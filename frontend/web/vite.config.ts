@@ -1,8 +1,14 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // the deployment registry lives at the repository root
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../deployments"]
+    }
+  },
   define: {
     'process.env': process.env
   }
@@ -0,0 +1,821 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract, EventLog } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+// Mirrors FHETendering.Status
+enum Status {
+  Draft,
+  Open,
+  Closed,
+  Decrypting,
+  Awarded,
+  Cancelled,
+  NoAward,
+}
+
+type Signers = {
+  creator: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const BOND = ethers.parseEther("1");
+
+/** Leaf of OpenZeppelin's StandardMerkleTree for `["address"]` */
+const merkleLeaf = (account: string) =>
+  ethers.keccak256(
+    ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(["address"], [account]),
+    ),
+  );
+
+/** Parent of two nodes, hashed in sorted order like OpenZeppelin's MerkleProof */
+const merkleParent = (a: string, b: string) =>
+  ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+
+type Criterion = {
+  name: string;
+  weight: number;
+  higherIsBetter: boolean;
+  cap: number;
+};
+
+const DELIVERY_DAYS: Criterion = {
+  name: "Delivery days",
+  weight: 10,
+  higherIsBetter: false,
+  cap: 0,
+};
+const WARRANTY_MONTHS: Criterion = {
+  name: "Warranty months",
+  weight: 5,
+  higherIsBetter: true,
+  cap: 24,
+};
+
+async function deployFixture() {
+  const factory = await ethers.getContractFactory("FHETendering");
+  const tendering = (await factory.deploy()) as unknown as Contract;
+  const address = await tendering.getAddress();
+  return { tendering, address };
+}
+
+describe("FHETendering", function () {
+  let signers: Signers;
+  let tendering: Contract;
+  let address: string;
+
+  before(async function () {
+    const [creator, alice, bob, carol] = await ethers.getSigners();
+    signers = { creator, alice, bob, carol };
+  });
+
+  beforeEach(async function () {
+    // The decryption oracle is only simulated by the FHEVM mock
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+    ({ tendering, address } = await deployFixture());
+  });
+
+  const as = (signer: HardhatEthersSigner) =>
+    tendering.connect(signer) as Contract;
+
+  /** Price-only ETH project taking bids with a BOND until the returned deadline */
+  async function createProject(
+    options: {
+      secondPrice?: boolean;
+      revealStats?: boolean;
+      draft?: boolean;
+      restricted?: boolean;
+      from?: HardhatEthersSigner;
+    } = {},
+  ) {
+    const deadline = (await time.latest()) + 1000;
+    await (options.from ? as(options.from) : tendering).createProject(
+      "Road repair",
+      "Resurface 2 km",
+      deadline,
+      0,
+      ethers.ZeroAddress,
+      options.secondPrice ?? false,
+      options.revealStats ?? false,
+      BOND,
+      1,
+      [],
+      options.restricted ?? false,
+      options.draft ?? false,
+    );
+    return deadline;
+  }
+
+  /** ETH project scored on price and `criteria`, taking bids with a BOND until the returned deadline */
+  async function createScoredProject(
+    priceWeight: number,
+    criteria: Criterion[],
+    options: { draft?: boolean; decimals?: number } = {},
+  ) {
+    const deadline = (await time.latest()) + 1000;
+    await tendering.createProject(
+      "Bridge inspection",
+      "Scored on price, delivery and warranty",
+      deadline,
+      options.decimals ?? 0,
+      ethers.ZeroAddress,
+      false,
+      false,
+      BOND,
+      priceWeight,
+      criteria,
+      false,
+      options.draft ?? false,
+    );
+    return deadline;
+  }
+
+  async function encrypt(signer: HardhatEthersSigner, amount: number) {
+    return fhevm
+      .createEncryptedInput(address, signer.address)
+      .add64(amount)
+      .encrypt();
+  }
+
+  async function placeBid(
+    signer: HardhatEthersSigner,
+    projectId: number,
+    amount: number,
+  ) {
+    const input = await encrypt(signer, amount);
+    return as(signer).placeEncryptedBid(
+      projectId,
+      input.handles[0],
+      input.inputProof,
+      { value: BOND },
+    );
+  }
+
+  async function updateBid(
+    signer: HardhatEthersSigner,
+    projectId: number,
+    amount: number,
+  ) {
+    const input = await encrypt(signer, amount);
+    return as(signer).updateEncryptedBid(
+      projectId,
+      input.handles[0],
+      input.inputProof,
+    );
+  }
+
+  async function placeScoredBid(
+    signer: HardhatEthersSigner,
+    projectId: number,
+    price: number,
+    values: number[],
+  ) {
+    const input = fhevm
+      .createEncryptedInput(address, signer.address)
+      .add64(price);
+    values.forEach((value) => input.add32(value));
+    const { handles, inputProof } = await input.encrypt();
+    return as(signer).placeScoredBid(
+      projectId,
+      handles[0],
+      handles.slice(1),
+      inputProof,
+      { value: BOND },
+    );
+  }
+
+  /** Fold every bid into the encrypted winner, one batch per call */
+  async function finalizeStats(projectId: number) {
+    let [folded, total] = await tendering.finalizeProgress(projectId);
+    while (folded < total) {
+      await tendering.finalizeStats(projectId, total);
+      [folded, total] = await tendering.finalizeProgress(projectId);
+    }
+  }
+
+  async function declareWinner(projectId: number, deadline: number) {
+    await time.increaseTo(deadline);
+    await finalizeStats(projectId);
+    await tendering.declareWinner(projectId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  describe("bonds", function () {
+    it("refunds losing bidders and the winner who accepts", async function () {
+      const { alice, bob } = signers;
+      const deadline = await createProject();
+      const input = await encrypt(alice, 10);
+      await expect(
+        as(alice).placeEncryptedBid(0, input.handles[0], input.inputProof),
+      ).to.be.revertedWith("Wrong bond");
+      await placeBid(alice, 0, 10);
+      await placeBid(bob, 0, 20);
+      await expect(as(bob).withdrawBond(0)).to.be.revertedWith("Not ready");
+
+      await declareWinner(0, deadline);
+      expect(await tendering.getStatus(0)).to.eq(Status.Awarded);
+      expect((await tendering.projects(0)).winner).to.eq(alice.address);
+
+      await expect(as(alice).withdrawBond(0)).to.be.revertedWith(
+        "Winner must accept award",
+      );
+      await expect(() => as(bob).withdrawBond(0)).to.changeEtherBalance(
+        bob,
+        BOND,
+      );
+      await expect(as(bob).withdrawBond(0)).to.be.revertedWith("No bond");
+      await expect(as(bob).acceptAward(0)).to.be.revertedWith("Only winner");
+      await expect(() => as(alice).acceptAward(0)).to.changeEtherBalance(
+        alice,
+        BOND,
+      );
+      await expect(as(alice).acceptAward(0)).to.be.revertedWith(
+        "Already accepted",
+      );
+      await expect(tendering.claimForfeitedBond(0)).to.be.revertedWith(
+        "Award accepted",
+      );
+    });
+
+    it("forfeits the winner's bond to the creator when the award is not accepted in time", async function () {
+      const { creator, alice, bob } = signers;
+      const deadline = await createProject();
+      await placeBid(alice, 0, 10);
+      await placeBid(bob, 0, 20);
+      await declareWinner(0, deadline);
+
+      await expect(tendering.claimForfeitedBond(0)).to.be.revertedWith(
+        "Accept window open",
+      );
+      await time.increase(Number(await tendering.AWARD_ACCEPT_WINDOW()) + 1);
+      await expect(as(alice).acceptAward(0)).to.be.revertedWith(
+        "Accept window over",
+      );
+      await expect(as(bob).claimForfeitedBond(0)).to.be.revertedWith(
+        "Only creator",
+      );
+      const claim = tendering.claimForfeitedBond(0);
+      await expect(claim)
+        .to.emit(tendering, "BondForfeited")
+        .withArgs(0, alice.address, BOND);
+      await expect(claim).to.changeEtherBalance(creator, BOND);
+      await expect(tendering.claimForfeitedBond(0)).to.be.revertedWith(
+        "No bond",
+      );
+      // bob's bond is still there to withdraw
+      await expect(() => as(bob).withdrawBond(0)).to.changeEtherBalance(
+        bob,
+        BOND,
+      );
+    });
+
+    it("returns every bond of a cancelled project", async function () {
+      const { alice, bob } = signers;
+      await createProject();
+      await placeBid(alice, 0, 10);
+      await expect(as(bob).cancelProject(0)).to.be.revertedWith("Only creator");
+      await tendering.cancelProject(0);
+      await expect(placeBid(bob, 0, 5)).to.be.revertedWith("Not open");
+      await expect(() => as(alice).withdrawBond(0)).to.changeEtherBalance(
+        alice,
+        BOND,
+      );
+    });
+
+    it("lets the winner declaration be requested again when the oracle does not answer", async function () {
+      const { alice, bob } = signers;
+      const deadline = await createProject();
+      await placeBid(alice, 0, 10);
+      await time.increaseTo(deadline);
+      await finalizeStats(0);
+      await tendering.declareWinner(0);
+      expect(await tendering.getStatus(0)).to.eq(Status.Decrypting);
+      await expect(as(alice).withdrawBond(0)).to.be.revertedWith("Not ready");
+
+      // no answer yet: a second request only becomes possible after the timeout
+      await expect(as(bob).declareWinner(0)).to.be.revertedWith("Not closed");
+      await time.increase(Number(await tendering.DECRYPTION_TIMEOUT()) + 1);
+      await expect(as(bob).declareWinner(0))
+        .to.emit(tendering, "StatusChanged")
+        .withArgs(0, Status.Decrypting);
+      expect(await tendering.decryptionRequestedAt(0)).to.eq(
+        await time.latest(),
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await tendering.getStatus(0)).to.eq(Status.Awarded);
+      expect((await tendering.projects(0)).winner).to.eq(alice.address);
+    });
+  });
+
+  describe("encrypted bids", function () {
+    it("keeps the winner and stats right through updates and withdrawals", async function () {
+      const { alice, bob, carol } = signers;
+      const deadline = await createProject({ revealStats: true });
+      await placeBid(alice, 0, 30);
+      await placeBid(bob, 0, 20);
+      await placeBid(carol, 0, 40);
+
+      await expect(placeBid(bob, 0, 5)).to.be.revertedWith("Already bid");
+      await expect(updateBid(alice, 0, 10))
+        .to.emit(tendering, "EncryptedBidUpdated")
+        .withArgs(0, alice.address);
+      await expect(() =>
+        as(carol).withdrawEncryptedBid(0),
+      ).to.changeEtherBalance(carol, BOND);
+      await expect(updateBid(carol, 0, 1)).to.be.revertedWith("No active bid");
+
+      await declareWinner(0, deadline);
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(alice.address);
+      expect(project.numBids).to.eq(2);
+      expect(project.lowestBidPlain).to.eq(10);
+      expect(project.highestBidPlain).to.eq(20);
+      expect(project.averageBidPlain).to.eq(15);
+    });
+
+    it("takes any number of bids and builds the winner in batches after the deadline", async function () {
+      const batch = Number(await tendering.FINALIZE_BATCH());
+      const bidders = (await ethers.getSigners()).slice(1, batch + 3);
+      const deadline = await createProject({ revealStats: true });
+      for (const [i, bidder] of bidders.entries()) {
+        await placeBid(bidder, 0, 100 + i);
+      }
+      // revising or withdrawing only touches the sum, however many bids there are
+      await updateBid(bidders[1], 0, 50);
+      await as(bidders[0]).withdrawEncryptedBid(0);
+      await expect(tendering.finalizeStats(0, batch)).to.be.revertedWith(
+        "Not closed",
+      );
+
+      await time.increaseTo(deadline);
+      await expect(tendering.declareWinner(0)).to.be.revertedWith(
+        "Stats not finalized",
+      );
+      await expect(tendering.finalizeStats(0, batch + 1))
+        .to.emit(tendering, "StatsFinalized")
+        .withArgs(0, batch, bidders.length);
+      await expect(tendering.declareWinner(0)).to.be.revertedWith(
+        "Stats not finalized",
+      );
+      await tendering.finalizeStats(0, batch);
+      expect(await tendering.finalizeProgress(0)).to.deep.eq([
+        BigInt(bidders.length),
+        BigInt(bidders.length),
+      ]);
+      await expect(tendering.finalizeStats(0, 1)).to.be.revertedWith(
+        "Already finalized",
+      );
+
+      await tendering.declareWinner(0);
+      await fhevm.awaitDecryptionOracle();
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(bidders[1].address);
+      expect(project.numBids).to.eq(bidders.length - 1);
+      expect(project.lowestBidPlain).to.eq(50);
+      expect(project.highestBidPlain).to.eq(100 + bidders.length - 1);
+    });
+
+    it("folds scored bids in smaller batches since each one carries its criteria", async function () {
+      const { creator } = signers;
+      const batch = Number(await tendering.SCORED_FINALIZE_BATCH());
+      const criteria = [0, 1, 2, 3, 4].map((i) => ({
+        name: `criterion ${i}`,
+        weight: 1000,
+        higherIsBetter: i % 2 == 0,
+        cap: 100,
+      }));
+      const deadline = (await time.latest()) + 1000;
+      await tendering.createProject(
+        "Bridge inspection",
+        "Scored on price and five criteria",
+        deadline,
+        0,
+        ethers.ZeroAddress,
+        false,
+        false,
+        0,
+        1000,
+        criteria,
+        false,
+        true,
+      );
+      const reserve = await encrypt(creator, 1000);
+      await tendering.setReservePrice(
+        0,
+        reserve.handles[0],
+        reserve.inputProof,
+      );
+      await tendering.openProject(0);
+
+      const bid = async (
+        signer: HardhatEthersSigner,
+        method: string,
+        price: number,
+      ) => {
+        const input = fhevm
+          .createEncryptedInput(address, signer.address)
+          .add64(price);
+        criteria.forEach(() => input.add32(5));
+        const { handles, inputProof } = await input.encrypt();
+        return as(signer)[method](0, handles[0], handles.slice(1), inputProof);
+      };
+      const bidders = (await ethers.getSigners()).slice(1, batch + 3);
+      for (const bidder of bidders) {
+        await bid(bidder, "placeScoredBid", 20);
+      }
+      await bid(bidders[batch + 1], "updateScoredBid", 10);
+
+      await time.increaseTo(deadline);
+      await expect(tendering.finalizeStats(0, 100))
+        .to.emit(tendering, "StatsFinalized")
+        .withArgs(0, batch, bidders.length);
+      await finalizeStats(0);
+      await tendering.declareWinner(0);
+      await fhevm.awaitDecryptionOracle();
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(bidders[batch + 1].address);
+      expect(project.lowestBidPlain).to.eq(10);
+    });
+  });
+
+  describe("weighted scoring", function () {
+    it("validates the criteria when the project is created", async function () {
+      await expect(
+        createScoredProject(1, [{ ...DELIVERY_DAYS, weight: 0 }]),
+      ).to.be.revertedWith("Zero weight");
+      await expect(
+        createScoredProject(1, [{ ...DELIVERY_DAYS, weight: 1001 }]),
+      ).to.be.revertedWith("Weight too high");
+      await expect(
+        createScoredProject(1001, [DELIVERY_DAYS]),
+      ).to.be.revertedWith("Weight too high");
+      await expect(
+        createScoredProject(1, Array(6).fill(DELIVERY_DAYS)),
+      ).to.be.revertedWith("Too many criteria");
+      await expect(
+        tendering.createProject(
+          "Bridge inspection",
+          "Second price on a scored tender",
+          (await time.latest()) + 1000,
+          0,
+          ethers.ZeroAddress,
+          true,
+          false,
+          0,
+          1,
+          [DELIVERY_DAYS],
+          false,
+          false,
+        ),
+      ).to.be.revertedWith("Vickrey needs price-only");
+
+      await createScoredProject(1, [DELIVERY_DAYS, WARRANTY_MONTHS]);
+      const criteria = await tendering.getCriteria(0);
+      expect(criteria.map((c: Criterion) => c.name)).to.deep.eq([
+        DELIVERY_DAYS.name,
+        WARRANTY_MONTHS.name,
+      ]);
+      expect(await tendering.priceWeights(0)).to.eq(1);
+    });
+
+    it("awards the best weighted score rather than the lowest price", async function () {
+      const { alice, bob, carol } = signers;
+      const deadline = await createScoredProject(1, [
+        DELIVERY_DAYS,
+        WARRANTY_MONTHS,
+      ]);
+      await expect(placeBid(alice, 0, 100)).to.be.revertedWith(
+        "Scored project",
+      );
+      await expect(placeScoredBid(alice, 0, 100, [30])).to.be.revertedWith(
+        "Criteria mismatch",
+      );
+
+      // score = price + 10 * days + 5 * (24 - min(months, 24))
+      await placeScoredBid(alice, 0, 100, [30, 12]); // 100 + 300 + 60 = 460
+      await placeScoredBid(bob, 0, 120, [10, 24]); // 120 + 100 + 0 = 220
+      await placeScoredBid(carol, 0, 150, [15, 36]); // 150 + 150 + 0 = 300
+
+      await declareWinner(0, deadline);
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(bob.address);
+      expect(project.lowestBidPlain).to.eq(120);
+      expect(project.clearingPricePlain).to.eq(120);
+    });
+
+    it("weighs criteria against whole tokens of price, whatever the bid precision", async function () {
+      const { alice, bob } = signers;
+      const deadline = await createScoredProject(1, [DELIVERY_DAYS], {
+        decimals: 9,
+      });
+      // 1.5 tokens in 30 days scores 1.5 + 10 * 30 = 301.5 tokens' worth,
+      // 2 tokens in 5 days 2 + 10 * 5 = 52
+      await placeScoredBid(alice, 0, 1.5e9, [30]);
+      await placeScoredBid(bob, 0, 2e9, [5]);
+
+      await declareWinner(0, deadline);
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(bob.address);
+      expect(project.clearingPricePlain).to.eq(2e9);
+    });
+
+    it("never awards a scored bid over the reserve price", async function () {
+      const { creator, alice, bob } = signers;
+      const deadline = await createScoredProject(
+        1,
+        [DELIVERY_DAYS, WARRANTY_MONTHS],
+        { draft: true },
+      );
+      const reserve = await encrypt(creator, 110);
+      await tendering.setReservePrice(
+        0,
+        reserve.handles[0],
+        reserve.inputProof,
+      );
+      await tendering.openProject(0);
+      await placeScoredBid(alice, 0, 100, [30, 0]); // 100 + 300 + 120 = 520
+      await placeScoredBid(bob, 0, 120, [10, 24]); // over the reserve
+
+      await declareWinner(0, deadline);
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(alice.address);
+      expect(project.clearingPricePlain).to.eq(100);
+    });
+  });
+
+  describe("second-price awards", function () {
+    it("pays the lowest bidder the second-lowest bid without revealing their own", async function () {
+      const { alice, bob, carol } = signers;
+      const deadline = await createProject({ secondPrice: true });
+      await placeBid(alice, 0, 30);
+      await placeBid(bob, 0, 10);
+      await placeBid(carol, 0, 20);
+
+      await declareWinner(0, deadline);
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(bob.address);
+      expect(project.clearingPricePlain).to.eq(20);
+      expect(project.lowestBidPlain).to.eq(0);
+      const [winnerEvent] = await tendering.queryFilter(
+        tendering.filters.WinnerDeclared(0),
+      );
+      expect((winnerEvent as EventLog).args).to.deep.eq([
+        0n,
+        bob.address,
+        0n,
+        20n,
+        0n,
+        0n,
+        3n,
+      ]);
+      await as(bob).acceptAward(0);
+      expect((await tendering.getAward(0)).amount).to.eq(
+        20n * ethers.parseEther("1"),
+      );
+    });
+
+    it("pays a lone bidder their own bid", async function () {
+      const { alice } = signers;
+      const deadline = await createProject({ secondPrice: true });
+      await placeBid(alice, 0, 25);
+
+      await declareWinner(0, deadline);
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(alice.address);
+      expect(project.clearingPricePlain).to.eq(25);
+      expect(project.lowestBidPlain).to.eq(25);
+    });
+
+    it("caps the payout at the reserve price", async function () {
+      const { creator, alice, bob } = signers;
+      const deadline = await createProject({ secondPrice: true, draft: true });
+      const reserve = await encrypt(creator, 15);
+      await tendering.setReservePrice(
+        0,
+        reserve.handles[0],
+        reserve.inputProof,
+      );
+      await tendering.openProject(0);
+      await placeBid(alice, 0, 10);
+      await placeBid(bob, 0, 40);
+
+      await declareWinner(0, deadline);
+      const project = await tendering.projects(0);
+      expect(project.winner).to.eq(alice.address);
+      expect(project.clearingPricePlain).to.eq(15);
+      expect(project.lowestBidPlain).to.eq(0);
+    });
+  });
+
+  describe("draft setup", function () {
+    it("only takes a reserve price while the project is a draft", async function () {
+      const { creator, alice, bob } = signers;
+      const deadline = await createProject({ draft: true });
+      const reserve = await encrypt(creator, 15);
+      await expect(
+        as(alice).setReservePrice(0, reserve.handles[0], reserve.inputProof),
+      ).to.be.revertedWith("Only creator");
+      await expect(
+        tendering.setReservePrice(0, reserve.handles[0], reserve.inputProof),
+      ).to.emit(tendering, "ReservePriceSet");
+      await tendering.openProject(0);
+      await expect(
+        tendering.setReservePrice(0, reserve.handles[0], reserve.inputProof),
+      ).to.be.revertedWith("Not a draft");
+
+      // an open project cannot get a reserve before its first bid either
+      await createProject();
+      const late = await encrypt(creator, 15);
+      await expect(
+        tendering.setReservePrice(1, late.handles[0], late.inputProof),
+      ).to.be.revertedWith("Not a draft");
+
+      await placeBid(alice, 0, 20);
+      await placeBid(bob, 0, 30);
+      await declareWinner(0, deadline);
+      expect(await tendering.getStatus(0)).to.eq(Status.NoAward);
+    });
+
+    it("only enables live stats while the project is a draft", async function () {
+      const { alice } = signers;
+      await createProject({ draft: true });
+      await expect(as(alice).enableLiveStats(0)).to.be.revertedWith(
+        "Only creator",
+      );
+      await expect(tendering.getLiveStatsHandles(0)).to.be.revertedWith(
+        "Live stats disabled",
+      );
+      await expect(tendering.enableLiveStats(0)).to.emit(
+        tendering,
+        "LiveStatsEnabled",
+      );
+      await tendering.openProject(0);
+      await placeBid(alice, 0, 20);
+      await tendering.getLiveStatsHandles(0);
+
+      // opening bidding first would let the creator switch them on right before the first bid
+      await createProject();
+      await expect(tendering.enableLiveStats(1)).to.be.revertedWith(
+        "Not a draft",
+      );
+    });
+
+    it("leaves cancelling as the only early exit once live stats are on", async function () {
+      const { alice } = signers;
+      await createProject({ draft: true });
+      await tendering.enableLiveStats(0);
+      await tendering.openProject(0);
+      await placeBid(alice, 0, 20);
+      await expect(tendering.terminateProject(0)).to.be.revertedWith(
+        "Live stats: cancel instead",
+      );
+      await tendering.cancelProject(0);
+      expect(await tendering.getStatus(0)).to.eq(Status.Cancelled);
+
+      // without live stats the creator sees nothing and may still end bidding early
+      await createProject();
+      await expect(tendering.terminateProject(1))
+        .to.emit(tendering, "ProjectTerminated")
+        .withArgs(1, signers.creator.address);
+    });
+  });
+
+  describe("restricted projects", function () {
+    it("only takes bids from prequalified addresses", async function () {
+      const { alice, bob } = signers;
+      await createProject({ restricted: true });
+      await createProject();
+      await expect(placeBid(alice, 0, 10)).to.be.revertedWith(
+        "Not prequalified",
+      );
+      await expect(
+        as(alice).addToAllowlist(0, [alice.address]),
+      ).to.be.revertedWith("Only creator");
+      await expect(
+        tendering.addToAllowlist(1, [alice.address]),
+      ).to.be.revertedWith("Not restricted");
+      expect(await tendering.isQualified(1, alice.address)).to.eq(true);
+
+      await expect(tendering.addToAllowlist(0, [alice.address, bob.address]))
+        .to.emit(tendering, "AllowlistUpdated")
+        .withArgs(0, alice.address, true);
+      await placeBid(alice, 0, 10);
+
+      // revoking stops new bids but keeps the one already placed
+      await expect(
+        tendering.removeFromAllowlist(0, [alice.address, bob.address]),
+      )
+        .to.emit(tendering, "AllowlistUpdated")
+        .withArgs(0, bob.address, false);
+      expect(await tendering.isQualified(0, alice.address)).to.eq(false);
+      expect(await tendering.hasActiveBid(0, alice.address)).to.eq(true);
+      await expect(placeBid(bob, 0, 20)).to.be.revertedWith("Not prequalified");
+    });
+
+    it("qualifies bidders who prove membership of the Merkle root", async function () {
+      const { alice, bob, carol } = signers;
+      await createProject({ restricted: true });
+      const [aliceLeaf, bobLeaf] = [alice, bob].map((s) =>
+        merkleLeaf(s.address),
+      );
+      await expect(as(alice).qualifyWithProof(0, [bobLeaf])).to.be.revertedWith(
+        "No allowlist root",
+      );
+      const root = merkleParent(aliceLeaf, bobLeaf);
+      await expect(as(alice).setAllowlistRoot(0, root)).to.be.revertedWith(
+        "Only creator",
+      );
+      await expect(tendering.setAllowlistRoot(0, root))
+        .to.emit(tendering, "AllowlistRootSet")
+        .withArgs(0, root);
+
+      await expect(
+        as(carol).qualifyWithProof(0, [aliceLeaf]),
+      ).to.be.revertedWith("Invalid proof");
+      await expect(
+        as(alice).qualifyWithProof(0, [aliceLeaf]),
+      ).to.be.revertedWith("Invalid proof");
+      await expect(as(alice).qualifyWithProof(0, [bobLeaf]))
+        .to.emit(tendering, "AllowlistUpdated")
+        .withArgs(0, alice.address, true);
+      await placeBid(alice, 0, 10);
+      await as(bob).qualifyWithProof(0, [aliceLeaf]);
+      await placeBid(bob, 0, 20);
+      await expect(placeBid(carol, 0, 30)).to.be.revertedWith(
+        "Not prequalified",
+      );
+    });
+  });
+
+  describe("listing", function () {
+    it("pages through all projects and each creator's own", async function () {
+      const { alice, bob } = signers;
+      await createProject();
+      await createProject({ from: alice, draft: true });
+      await createProject();
+      await createProject({ from: alice, restricted: true });
+
+      const ids = (page: { id: bigint }[]) => page.map((s) => Number(s.id));
+      let [page, total] = await tendering.getProjects(1, 2);
+      expect(total).to.eq(4);
+      expect(ids(page)).to.deep.eq([1, 2]);
+      expect(page[0].creator).to.eq(alice.address);
+      expect(page[0].title).to.eq("Road repair");
+      expect(page[0].status).to.eq(Status.Draft);
+      expect(page[0].bondAmount).to.eq(BOND);
+      expect(page[1].status).to.eq(Status.Open);
+      expect(page[1].scored).to.eq(false);
+      [page, total] = await tendering.getProjects(3, 10);
+      expect([ids(page), total]).to.deep.eq([[3], 4n]);
+      [page, total] = await tendering.getProjects(4, 10);
+      expect([ids(page), total]).to.deep.eq([[], 4n]);
+
+      [page, total] = await tendering.getProjectsByCreator(
+        alice.address,
+        0,
+        10,
+      );
+      expect([ids(page), total]).to.deep.eq([[1, 3], 2n]);
+      expect(page[1].restricted).to.eq(true);
+      [page, total] = await tendering.getProjectsByCreator(
+        signers.creator.address,
+        1,
+        1,
+      );
+      expect([ids(page), total]).to.deep.eq([[2], 2n]);
+      [page, total] = await tendering.getProjectsByCreator(bob.address, 0, 10);
+      expect([ids(page), total]).to.deep.eq([[], 0n]);
+
+      // an open project is reported as Closed once its deadline has passed
+      await time.increase(1000);
+      [page] = await tendering.getProjects(2, 1);
+      expect(page[0].status).to.eq(Status.Closed);
+    });
+
+    it("clamps a page to MAX_PAGE_SIZE", async function () {
+      const maxPage = Number(await tendering.MAX_PAGE_SIZE());
+      for (let i = 0; i <= maxPage; i++) {
+        await createProject();
+      }
+      const [page, total] = await tendering.getProjects(0, maxPage * 10);
+      expect(total).to.eq(maxPage + 1);
+      expect(page.length).to.eq(maxPage);
+      const [rest] = await tendering.getProjects(maxPage, maxPage * 10);
+      expect(rest.length).to.eq(1);
+      const [own] = await tendering.getProjectsByCreator(
+        signers.creator.address,
+        0,
+        maxPage * 10,
+      );
+      expect(own.length).to.eq(maxPage);
+    });
+  });
+});
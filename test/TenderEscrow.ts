@@ -0,0 +1,434 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+// Mirrors TenderEscrow.MilestoneStatus
+enum MilestoneStatus {
+  Pending,
+  Submitted,
+  Released,
+  Settled,
+}
+
+type Signers = {
+  creator: HardhatEthersSigner;
+  winner: HardhatEthersSigner;
+  bidder: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+  arbiter: HardhatEthersSigner;
+};
+
+const DISPUTE_BOND = ethers.parseEther("0.1");
+const ETH = ethers.parseEther("1");
+
+async function deployFixture(arbiter: string) {
+  const tendering = (await (
+    await ethers.getContractFactory("Tendering")
+  ).deploy()) as unknown as Contract;
+  const escrow = (await (
+    await ethers.getContractFactory("TenderEscrow")
+  ).deploy(
+    await tendering.getAddress(),
+    arbiter,
+    DISPUTE_BOND,
+  )) as unknown as Contract;
+  return { tendering, escrow };
+}
+
+describe("TenderEscrow", function () {
+  let signers: Signers;
+  let tendering: Contract;
+  let escrow: Contract;
+
+  before(async function () {
+    const [creator, winner, bidder, outsider, arbiter] =
+      await ethers.getSigners();
+    signers = { creator, winner, bidder, outsider, arbiter };
+  });
+
+  beforeEach(async function () {
+    ({ tendering, escrow } = await deployFixture(signers.arbiter.address));
+  });
+
+  const as = (signer: HardhatEthersSigner) =>
+    escrow.connect(signer) as Contract;
+
+  /**
+   * Award a project to `winner` at `amount` (in the project's decimals) over a higher
+   * bid from `bidder`; the award is accepted unless `accept` is false
+   */
+  async function award(
+    amount: bigint,
+    options: { token?: string; decimals?: number; accept?: boolean } = {},
+  ) {
+    const { winner, bidder } = signers;
+    const projectId = Number(await tendering.nextProjectId());
+    const deadline = (await time.latest()) + 1000;
+    await tendering.createProject(
+      "Road repair",
+      "Resurface 2 km",
+      deadline,
+      options.decimals ?? 18,
+      options.token ?? ethers.ZeroAddress,
+      0,
+      0,
+      false,
+      false,
+    );
+    const salt = ethers.id("salt");
+    const bids: [HardhatEthersSigner, bigint][] = [
+      [winner, amount],
+      [bidder, amount + 1n],
+    ];
+    for (const [signer, bid] of bids) {
+      const commitment = await tendering.bidCommitment(
+        projectId,
+        signer.address,
+        bid,
+        salt,
+      );
+      await (tendering.connect(signer) as Contract).placeBid(
+        projectId,
+        commitment,
+      );
+    }
+    await time.increaseTo(deadline);
+    for (const [signer, bid] of bids) {
+      await (tendering.connect(signer) as Contract).revealBid(
+        projectId,
+        bid,
+        salt,
+      );
+    }
+    await time.increaseTo(deadline + Number(await tendering.REVEAL_WINDOW()));
+    await tendering.terminateProject(projectId);
+    if (options.accept ?? true) {
+      await (tendering.connect(winner) as Contract).acceptAward(projectId);
+    }
+    return projectId;
+  }
+
+  const statuses = async (projectId: number) =>
+    (await escrow.getMilestones(projectId)).map((m: { status: bigint }) =>
+      Number(m.status),
+    );
+
+  describe("ETH", function () {
+    it("takes the award amount once the winner has accepted", async function () {
+      const { winner } = signers;
+      await award(3n, { decimals: 0, accept: false });
+      const total = 3n * ETH;
+      await expect(
+        escrow.fundEscrow(0, ["all"], [total], { value: total }),
+      ).to.be.revertedWith("Award not accepted");
+      await (tendering.connect(winner) as Contract).acceptAward(0);
+
+      await expect(
+        as(winner).fundEscrow(0, ["all"], [total], { value: total }),
+      ).to.be.revertedWith("Only creator");
+      await expect(
+        escrow.fundEscrow(0, ["a", "b"], [ETH, ETH], { value: total }),
+      ).to.be.revertedWith("Milestones must sum to amount");
+      await expect(
+        escrow.fundEscrow(0, ["a"], [ETH, 2n * ETH], { value: total }),
+      ).to.be.revertedWith("Length mismatch");
+      await expect(
+        escrow.fundEscrow(0, [], [], { value: total }),
+      ).to.be.revertedWith("Bad milestone count");
+      await expect(
+        escrow.fundEscrow(0, ["a", "b"], [0, total], { value: total }),
+      ).to.be.revertedWith("Empty milestone");
+      await expect(
+        escrow.fundEscrow(0, ["all"], [total], { value: 1 }),
+      ).to.be.revertedWith("Wrong amount");
+
+      const fund = escrow.fundEscrow(0, ["a", "b", "c"], [ETH, ETH, ETH], {
+        value: total,
+      });
+      await expect(fund)
+        .to.emit(escrow, "EscrowFunded")
+        .withArgs(0, ethers.ZeroAddress, total, 3);
+      await expect(fund).to.changeEtherBalance(escrow, total);
+      await expect(
+        escrow.fundEscrow(0, ["all"], [total], { value: total }),
+      ).to.be.revertedWith("Already funded");
+      expect(await statuses(0)).to.deep.eq([
+        MilestoneStatus.Pending,
+        MilestoneStatus.Pending,
+        MilestoneStatus.Pending,
+      ]);
+    });
+
+    it("pays milestones on approval or after the approval timeout", async function () {
+      const { winner, outsider } = signers;
+      await award(3n, { decimals: 0 });
+      await escrow.fundEscrow(0, ["a", "b", "c"], [ETH, ETH, ETH], {
+        value: 3n * ETH,
+      });
+
+      await expect(escrow.submitMilestone(0, 0)).to.be.revertedWith(
+        "Only winner",
+      );
+      await expect(as(winner).submitMilestone(0, 3)).to.be.revertedWith(
+        "No such milestone",
+      );
+      await expect(as(winner).submitMilestone(0, 0))
+        .to.emit(escrow, "MilestoneSubmitted")
+        .withArgs(0, 0);
+      await as(winner).submitMilestone(0, 1);
+      await expect(as(outsider).releaseMilestone(0, 0)).to.be.revertedWith(
+        "Approval window open",
+      );
+      await expect(as(outsider).releaseMilestone(0, 2)).to.be.revertedWith(
+        "Not submitted",
+      );
+      await expect(
+        as(outsider).flagMilestoneDispute(0, 1, true),
+      ).to.be.revertedWith("Only creator or winner");
+      await expect(escrow.flagMilestoneDispute(0, 1, true))
+        .to.emit(escrow, "MilestoneDisputeFlagged")
+        .withArgs(0, 1, signers.creator.address, true);
+
+      await time.increase(
+        Number(await escrow.MILESTONE_APPROVAL_TIMEOUT()) + 1,
+      );
+      const release = as(outsider).releaseMilestone(0, 0);
+      await expect(release)
+        .to.emit(escrow, "MilestoneReleased")
+        .withArgs(0, 0, ETH, true);
+      await expect(release).to.changeEtherBalance(winner, ETH);
+      await expect(as(outsider).releaseMilestone(0, 1)).to.be.revertedWith(
+        "Disputed by creator",
+      );
+
+      // the creator may pay a milestone before it is submitted
+      await expect(as(outsider).approveMilestone(0, 2)).to.be.revertedWith(
+        "Only creator",
+      );
+      await expect(() => escrow.approveMilestone(0, 2)).to.changeEtherBalance(
+        winner,
+        ETH,
+      );
+      await expect(escrow.approveMilestone(0, 2)).to.be.revertedWith(
+        "Already released",
+      );
+      await escrow.flagMilestoneDispute(0, 1, false);
+      await expect(as(outsider).releaseMilestone(0, 1))
+        .to.emit(escrow, "MilestoneReleased")
+        .withArgs(0, 1, ETH, true);
+
+      expect(await statuses(0)).to.deep.eq([
+        MilestoneStatus.Released,
+        MilestoneStatus.Released,
+        MilestoneStatus.Released,
+      ]);
+      expect((await escrow.escrows(0)).released).to.eq(3n * ETH);
+      expect(await ethers.provider.getBalance(escrow)).to.eq(0);
+    });
+  });
+
+  describe("ERC-20", function () {
+    it("holds the award in token units and pays milestones in the token", async function () {
+      const { winner } = signers;
+      const token = (await (
+        await ethers.getContractFactory("MockERC20")
+      ).deploy(6, 10n ** 12n)) as unknown as Contract;
+      // 12.34 at 2 decimals is 12340000 units of a 6-decimal token
+      await award(1234n, { token: await token.getAddress(), decimals: 2 });
+      const [, , paymentToken, amount] = await tendering.getAward(0);
+      expect(paymentToken).to.eq(await token.getAddress());
+      expect(amount).to.eq(12_340_000n);
+
+      await expect(
+        escrow.fundEscrow(0, ["a", "b"], [12_000_000n, 340_000n]),
+      ).to.be.revertedWith("Token transfer failed");
+      await token.approve(await escrow.getAddress(), amount);
+      await expect(
+        escrow.fundEscrow(0, ["a", "b"], [12_000_000n, 340_000n], {
+          value: 1,
+        }),
+      ).to.be.revertedWith("ETH not accepted");
+      await expect(escrow.fundEscrow(0, ["a", "b"], [12_000_000n, 340_000n]))
+        .to.emit(escrow, "EscrowFunded")
+        .withArgs(0, await token.getAddress(), amount, 2);
+      expect(await token.balanceOf(await escrow.getAddress())).to.eq(amount);
+
+      await escrow.approveMilestone(0, 0);
+      await as(winner).submitMilestone(0, 1);
+      await time.increase(
+        Number(await escrow.MILESTONE_APPROVAL_TIMEOUT()) + 1,
+      );
+      await escrow.releaseMilestone(0, 1);
+      expect(await token.balanceOf(winner.address)).to.eq(amount);
+      expect(await token.balanceOf(await escrow.getAddress())).to.eq(0);
+    });
+
+    it("accepts tokens whose transfers return nothing", async function () {
+      const { winner } = signers;
+      const token = (await (
+        await ethers.getContractFactory("MockNoReturnERC20")
+      ).deploy(10n ** 12n)) as unknown as Contract;
+      await award(777n, { token: await token.getAddress(), decimals: 6 });
+
+      await token.approve(await escrow.getAddress(), 777);
+      await escrow.fundEscrow(0, ["all"], [777]);
+      await escrow.approveMilestone(0, 0);
+      expect(await token.balanceOf(winner.address)).to.eq(777);
+    });
+  });
+
+  describe("disputes", function () {
+    it("keeps each claimant's dispute apart and only lets the parties' pause releases", async function () {
+      const { creator, winner, bidder, outsider, arbiter } = signers;
+      await award(3n, { decimals: 0 });
+      await escrow.fundEscrow(0, ["a", "b", "c"], [ETH, ETH, ETH], {
+        value: 3n * ETH,
+      });
+      await as(winner).submitMilestone(0, 0);
+
+      await expect(
+        as(outsider).openDispute(0, "ipfs://outsider", { value: DISPUTE_BOND }),
+      ).to.be.revertedWith("Only parties or bidders");
+      await expect(
+        as(bidder).openDispute(0, "", { value: DISPUTE_BOND }),
+      ).to.be.revertedWith("No evidence");
+      await expect(
+        as(bidder).openDispute(0, "ipfs://bidder", { value: 1 }),
+      ).to.be.revertedWith("Wrong bond");
+      await expect(
+        as(bidder).openDispute(0, "ipfs://bidder", { value: DISPUTE_BOND }),
+      )
+        .to.emit(escrow, "DisputeOpened")
+        .withArgs(0, bidder.address, "ipfs://bidder");
+      await expect(
+        as(bidder).openDispute(0, "ipfs://again", { value: DISPUTE_BOND }),
+      ).to.be.revertedWith("Dispute open");
+
+      // a bidder's dispute does not hold up payment
+      await time.increase(
+        Number(await escrow.MILESTONE_APPROVAL_TIMEOUT()) + 1,
+      );
+      await as(outsider).releaseMilestone(0, 0);
+
+      await as(winner).submitMilestone(0, 1);
+      await as(winner).openDispute(0, "ipfs://winner", {
+        value: DISPUTE_BOND,
+      });
+      expect(await escrow.openPartyDisputes(0)).to.eq(1);
+      await time.increase(
+        Number(await escrow.MILESTONE_APPROVAL_TIMEOUT()) + 1,
+      );
+      await expect(as(outsider).releaseMilestone(0, 1)).to.be.revertedWith(
+        "Dispute open",
+      );
+
+      await expect(
+        escrow.resolveDispute(0, bidder.address, false, false, 0),
+      ).to.be.revertedWith("Only arbiter");
+      await expect(
+        as(arbiter).resolveDispute(0, bidder.address, false, false, 1),
+      ).to.be.revertedWith("Escrow not settled");
+      // dismissed: the bidder's bond goes to the creator
+      const dismiss = as(arbiter).resolveDispute(
+        0,
+        bidder.address,
+        false,
+        false,
+        0,
+      );
+      await expect(dismiss)
+        .to.emit(escrow, "DisputeResolved")
+        .withArgs(0, bidder.address, false, 0, 0);
+      await expect(dismiss).to.changeEtherBalance(creator, DISPUTE_BOND);
+      await expect(
+        as(arbiter).resolveDispute(0, bidder.address, false, false, 0),
+      ).to.be.revertedWith("No open dispute");
+      const disputes = await escrow.getDisputes(0);
+      expect(
+        disputes.map((d: { claimant: string; open: boolean }) => [
+          d.claimant,
+          d.open,
+        ]),
+      ).to.deep.eq([
+        [bidder.address, false],
+        [winner.address, true],
+      ]);
+
+      // upheld with the unpaid 2 ETH split between winner and creator
+      await expect(
+        as(arbiter).resolveDispute(0, winner.address, true, true, 3n * ETH),
+      ).to.be.revertedWith("Exceeds escrow");
+      const uphold = as(arbiter).resolveDispute(
+        0,
+        winner.address,
+        true,
+        true,
+        ETH,
+      );
+      await expect(uphold)
+        .to.emit(escrow, "DisputeResolved")
+        .withArgs(0, winner.address, true, ETH, ETH);
+      await expect(uphold).to.changeEtherBalances(
+        [winner, creator],
+        [DISPUTE_BOND + ETH, ETH],
+      );
+      expect(await escrow.openPartyDisputes(0)).to.eq(0);
+      expect(await statuses(0)).to.deep.eq([
+        MilestoneStatus.Released,
+        MilestoneStatus.Settled,
+        MilestoneStatus.Settled,
+      ]);
+      const { released, refunded } = await escrow.escrows(0);
+      expect([released, refunded]).to.deep.eq([2n * ETH, ETH]);
+      await expect(escrow.approveMilestone(0, 2)).to.be.revertedWith(
+        "Already released",
+      );
+    });
+
+    it("settles what is left of an ERC-20 escrow on a late party dispute", async function () {
+      const { creator, winner, bidder, arbiter } = signers;
+      const token = (await (
+        await ethers.getContractFactory("MockERC20")
+      ).deploy(6, 10n ** 12n)) as unknown as Contract;
+      await award(100n, { token: await token.getAddress(), decimals: 0 });
+      const amount = 100_000_000n;
+      await token.approve(await escrow.getAddress(), amount);
+      await escrow.fundEscrow(0, ["a", "b"], [amount / 2n, amount / 2n]);
+      await escrow.approveMilestone(0, 0);
+
+      await time.increase(Number(await escrow.DISPUTE_WINDOW()) + 1);
+      await expect(
+        as(bidder).openDispute(0, "ipfs://late", { value: DISPUTE_BOND }),
+      ).to.be.revertedWith("Dispute window over");
+      // the creator can still dispute while the escrow holds funds
+      await escrow.openDispute(0, "ipfs://unfinished", {
+        value: DISPUTE_BOND,
+      });
+      expect((await escrow.disputes(0, creator.address)).respondent).to.eq(
+        winner.address,
+      );
+
+      // dismissed: the creator's bond goes to the winner, who keeps 30 of the 50 left
+      const balanceBefore = await token.balanceOf(creator.address);
+      const ruling = as(arbiter).resolveDispute(
+        0,
+        creator.address,
+        false,
+        true,
+        30_000_000n,
+      );
+      await expect(ruling).to.changeEtherBalance(winner, DISPUTE_BOND);
+      expect(await token.balanceOf(winner.address)).to.eq(80_000_000n);
+      expect(await token.balanceOf(creator.address)).to.eq(
+        balanceBefore + 20_000_000n,
+      );
+      expect(await token.balanceOf(await escrow.getAddress())).to.eq(0);
+
+      await expect(
+        escrow.openDispute(0, "ipfs://again", { value: DISPUTE_BOND }),
+      ).to.be.revertedWith("Dispute window over");
+    });
+  });
+});
@@ -0,0 +1,478 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+// Mirrors Tendering.Status
+enum Status {
+  Draft,
+  Open,
+  Closed,
+  Decrypting,
+  Awarded,
+  Cancelled,
+  NoAward,
+}
+
+type Signers = {
+  creator: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const BOND = ethers.parseEther("1");
+
+/** Leaf of OpenZeppelin's StandardMerkleTree for `["address"]` */
+const merkleLeaf = (account: string) =>
+  ethers.keccak256(
+    ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(["address"], [account]),
+    ),
+  );
+
+/** Parent of two nodes, hashed in sorted order like OpenZeppelin's MerkleProof */
+const merkleParent = (a: string, b: string) =>
+  ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+
+async function deployFixture() {
+  const factory = await ethers.getContractFactory("Tendering");
+  const tendering = (await factory.deploy()) as unknown as Contract;
+  return { tendering };
+}
+
+describe("Tendering", function () {
+  let signers: Signers;
+  let tendering: Contract;
+
+  before(async function () {
+    const [creator, alice, bob, carol] = await ethers.getSigners();
+    signers = { creator, alice, bob, carol };
+  });
+
+  beforeEach(async function () {
+    ({ tendering } = await deployFixture());
+  });
+
+  const as = (signer: HardhatEthersSigner) =>
+    tendering.connect(signer) as Contract;
+
+  /** ETH project taking bids with a BOND until the returned deadline */
+  async function createProject(
+    options: {
+      reservePrice?: number;
+      restricted?: boolean;
+      draft?: boolean;
+      from?: HardhatEthersSigner;
+    } = {},
+  ) {
+    const deadline = (await time.latest()) + 1000;
+    await (options.from ? as(options.from) : tendering).createProject(
+      "Road repair",
+      "Resurface 2 km",
+      deadline,
+      0,
+      ethers.ZeroAddress,
+      BOND,
+      options.reservePrice ?? 0,
+      options.restricted ?? false,
+      options.draft ?? false,
+    );
+    return deadline;
+  }
+
+  const salt = (signer: HardhatEthersSigner) =>
+    ethers.id(`salt:${signer.address}`);
+
+  async function placeBid(
+    signer: HardhatEthersSigner,
+    projectId: number,
+    amount: number,
+  ) {
+    const commitment = await tendering.bidCommitment(
+      projectId,
+      signer.address,
+      amount,
+      salt(signer),
+    );
+    return as(signer).placeBid(projectId, commitment, { value: BOND });
+  }
+
+  async function revealBid(
+    signer: HardhatEthersSigner,
+    projectId: number,
+    amount: number,
+  ) {
+    return as(signer).revealBid(projectId, amount, salt(signer));
+  }
+
+  /** Reveal the given bids after the deadline and settle once the reveal window is over */
+  async function settle(
+    projectId: number,
+    deadline: number,
+    bids: [HardhatEthersSigner, number][],
+  ) {
+    await time.increaseTo(deadline);
+    for (const [signer, amount] of bids) {
+      await revealBid(signer, projectId, amount);
+    }
+    await time.increaseTo(deadline + Number(await tendering.REVEAL_WINDOW()));
+    await tendering.terminateProject(projectId);
+  }
+
+  describe("bonds", function () {
+    it("refunds losing bidders and the winner who accepts", async function () {
+      const { alice, bob } = signers;
+      const deadline = await createProject();
+      const commitment = await tendering.bidCommitment(
+        0,
+        alice.address,
+        10,
+        salt(alice),
+      );
+      await expect(as(alice).placeBid(0, commitment)).to.be.revertedWith(
+        "Wrong bond",
+      );
+      await placeBid(alice, 0, 10);
+      await placeBid(bob, 0, 20);
+      await expect(as(bob).withdrawBond(0)).to.be.revertedWith("Not settled");
+
+      await settle(0, deadline, [
+        [alice, 10],
+        [bob, 20],
+      ]);
+      expect(await tendering.getStatus(0)).to.eq(Status.Awarded);
+      expect((await tendering.projects(0)).winner).to.eq(alice.address);
+
+      await expect(as(alice).withdrawBond(0)).to.be.revertedWith(
+        "Winner must accept award",
+      );
+      const refund = as(bob).withdrawBond(0);
+      await expect(refund)
+        .to.emit(tendering, "BondRefunded")
+        .withArgs(0, bob.address, BOND);
+      await expect(refund).to.changeEtherBalance(bob, BOND);
+      await expect(as(bob).withdrawBond(0)).to.be.revertedWith("No bond");
+      await expect(as(bob).acceptAward(0)).to.be.revertedWith("Only winner");
+      await expect(() => as(alice).acceptAward(0)).to.changeEtherBalance(
+        alice,
+        BOND,
+      );
+      await expect(as(alice).acceptAward(0)).to.be.revertedWith(
+        "Already accepted",
+      );
+      await expect(tendering.claimForfeitedBond(0)).to.be.revertedWith(
+        "Award accepted",
+      );
+    });
+
+    it("forfeits the winner's bond to the creator when the award is not accepted in time", async function () {
+      const { creator, alice, bob } = signers;
+      const deadline = await createProject();
+      await placeBid(alice, 0, 10);
+      await placeBid(bob, 0, 20);
+      await settle(0, deadline, [
+        [alice, 10],
+        [bob, 20],
+      ]);
+
+      await expect(tendering.claimForfeitedBond(0)).to.be.revertedWith(
+        "Accept window open",
+      );
+      await time.increase(Number(await tendering.AWARD_ACCEPT_WINDOW()) + 1);
+      await expect(as(alice).acceptAward(0)).to.be.revertedWith(
+        "Accept window over",
+      );
+      await expect(as(bob).claimForfeitedBond(0)).to.be.revertedWith(
+        "Only creator",
+      );
+      const claim = tendering.claimForfeitedBond(0);
+      await expect(claim)
+        .to.emit(tendering, "BondForfeited")
+        .withArgs(0, alice.address, BOND);
+      await expect(claim).to.changeEtherBalance(creator, BOND);
+      await expect(tendering.claimForfeitedBond(0)).to.be.revertedWith(
+        "No bond",
+      );
+      // bob's bond is still there to withdraw
+      await expect(() => as(bob).withdrawBond(0)).to.changeEtherBalance(
+        bob,
+        BOND,
+      );
+    });
+
+    it("refunds a withdrawn bid straight away", async function () {
+      const { alice } = signers;
+      await createProject();
+      await placeBid(alice, 0, 10);
+      await expect(() => as(alice).withdrawBid(0)).to.changeEtherBalance(
+        alice,
+        BOND,
+      );
+      await expect(as(alice).withdrawBid(0)).to.be.revertedWith(
+        "No active bid",
+      );
+    });
+
+    it("returns every bond of a cancelled project", async function () {
+      const { alice, bob } = signers;
+      await createProject();
+      await placeBid(alice, 0, 10);
+      await expect(as(bob).cancelProject(0)).to.be.revertedWith("Only creator");
+      await tendering.cancelProject(0);
+      await expect(placeBid(bob, 0, 5)).to.be.revertedWith("Not open");
+      await expect(() => as(alice).withdrawBond(0)).to.changeEtherBalance(
+        alice,
+        BOND,
+      );
+    });
+  });
+
+  describe("sealed bids", function () {
+    it("awards the lowest revealed bid and burns unrevealed bonds", async function () {
+      const { creator, alice, bob, carol } = signers;
+      const deadline = await createProject();
+      await placeBid(alice, 0, 10);
+      await placeBid(bob, 0, 20);
+      await placeBid(carol, 0, 15);
+      await expect(revealBid(bob, 0, 20)).to.be.revertedWith("Bidding open");
+
+      await time.increaseTo(deadline);
+      await expect(as(bob).revealBid(0, 20, salt(carol))).to.be.revertedWith(
+        "Commitment mismatch",
+      );
+      await expect(revealBid(bob, 0, 20))
+        .to.emit(tendering, "BidRevealed")
+        .withArgs(0, bob.address, 20);
+      await expect(revealBid(bob, 0, 20)).to.be.revertedWith(
+        "Already revealed",
+      );
+      await revealBid(carol, 0, 15);
+      await expect(tendering.terminateProject(0)).to.be.revertedWith(
+        "Reveal window open",
+      );
+
+      await time.increaseTo(deadline + Number(await tendering.REVEAL_WINDOW()));
+      await expect(revealBid(alice, 0, 10)).to.be.revertedWith(
+        "Reveal window over",
+      );
+      await expect(as(alice).terminateProject(0))
+        .to.emit(tendering, "WinnerDeclared")
+        .withArgs(0, carol.address, 15);
+      const [numParticipants, averageBid, highestBid, lowestBid] =
+        await tendering.getProjectStats(0);
+      expect([numParticipants, averageBid, highestBid, lowestBid]).to.deep.eq([
+        2n,
+        17n,
+        20n,
+        15n,
+      ]);
+
+      // alice's lower bid never counted, and her bond does not go to the creator
+      await expect(as(alice).withdrawBond(0)).to.be.revertedWith(
+        "Bid not revealed",
+      );
+      await expect(
+        tendering.burnUnrevealedBond(0, bob.address),
+      ).to.be.revertedWith("Bid revealed");
+      const burn = as(bob).burnUnrevealedBond(0, alice.address);
+      await expect(burn)
+        .to.emit(tendering, "BondForfeited")
+        .withArgs(0, alice.address, BOND);
+      await expect(burn).to.changeEtherBalances(
+        [creator, "0x000000000000000000000000000000000000dEaD"],
+        [0, BOND],
+      );
+      await expect(
+        tendering.burnUnrevealedBond(0, alice.address),
+      ).to.be.revertedWith("No bond");
+      await expect(() => as(bob).withdrawBond(0)).to.changeEtherBalance(
+        bob,
+        BOND,
+      );
+    });
+
+    it("settles without an award when no bid is revealed or meets the reserve", async function () {
+      const { alice, bob } = signers;
+      const deadline = await createProject({ reservePrice: 12 });
+      await placeBid(alice, 0, 20);
+      await placeBid(bob, 0, 30);
+      await settle(0, deadline, [
+        [alice, 20],
+        [bob, 30],
+      ]);
+      expect(await tendering.getStatus(0)).to.eq(Status.NoAward);
+      expect(await tendering.getWinner(0)).to.deep.eq([ethers.ZeroAddress, 0n]);
+      await expect(tendering.getAward(0)).to.be.revertedWith("No award");
+      await expect(() => as(alice).withdrawBond(0)).to.changeEtherBalance(
+        alice,
+        BOND,
+      );
+
+      const unrevealed = await createProject();
+      await placeBid(alice, 1, 5);
+      await time.increaseTo(
+        unrevealed + Number(await tendering.REVEAL_WINDOW()),
+      );
+      await expect(tendering.terminateProject(1))
+        .to.emit(tendering, "NoAward")
+        .withArgs(1, 0, 0);
+      expect(await tendering.getStatus(1)).to.eq(Status.NoAward);
+      await expect(tendering.burnUnrevealedBond(1, alice.address))
+        .to.emit(tendering, "BondForfeited")
+        .withArgs(1, alice.address, BOND);
+    });
+
+    it("only ends a project early by cancelling it", async function () {
+      const { alice } = signers;
+      await createProject();
+      await placeBid(alice, 0, 10);
+      await expect(tendering.terminateProject(0)).to.be.revertedWith(
+        "Reveal window open",
+      );
+      await expect(tendering.cancelProject(0))
+        .to.emit(tendering, "StatusChanged")
+        .withArgs(0, Status.Cancelled)
+        .and.not.to.emit(tendering, "ProjectTerminated");
+      await expect(tendering.terminateProject(0)).to.be.revertedWith(
+        "Not open",
+      );
+      // nothing was revealed, yet a cancelled project returns every bond
+      await expect(() => as(alice).withdrawBond(0)).to.changeEtherBalance(
+        alice,
+        BOND,
+      );
+    });
+  });
+
+  describe("restricted projects", function () {
+    it("only takes bids from prequalified addresses", async function () {
+      const { alice, bob } = signers;
+      await createProject({ restricted: true });
+      await createProject();
+      await expect(placeBid(alice, 0, 10)).to.be.revertedWith(
+        "Not prequalified",
+      );
+      await expect(
+        as(alice).addToAllowlist(0, [alice.address]),
+      ).to.be.revertedWith("Only creator");
+      await expect(
+        tendering.addToAllowlist(1, [alice.address]),
+      ).to.be.revertedWith("Not restricted");
+      expect(await tendering.isQualified(1, alice.address)).to.eq(true);
+
+      await expect(tendering.addToAllowlist(0, [alice.address, bob.address]))
+        .to.emit(tendering, "AllowlistUpdated")
+        .withArgs(0, alice.address, true);
+      await placeBid(alice, 0, 10);
+
+      // revoking stops new bids but keeps the one already placed
+      await expect(
+        tendering.removeFromAllowlist(0, [alice.address, bob.address]),
+      )
+        .to.emit(tendering, "AllowlistUpdated")
+        .withArgs(0, bob.address, false);
+      expect(await tendering.isQualified(0, alice.address)).to.eq(false);
+      expect(await tendering.hasActiveBid(0, alice.address)).to.eq(true);
+      await expect(placeBid(bob, 0, 20)).to.be.revertedWith("Not prequalified");
+    });
+
+    it("qualifies bidders who prove membership of the Merkle root", async function () {
+      const { alice, bob, carol } = signers;
+      await createProject({ restricted: true });
+      const [aliceLeaf, bobLeaf] = [alice, bob].map((s) =>
+        merkleLeaf(s.address),
+      );
+      await expect(as(alice).qualifyWithProof(0, [bobLeaf])).to.be.revertedWith(
+        "No allowlist root",
+      );
+      const root = merkleParent(aliceLeaf, bobLeaf);
+      await expect(as(alice).setAllowlistRoot(0, root)).to.be.revertedWith(
+        "Only creator",
+      );
+      await expect(tendering.setAllowlistRoot(0, root))
+        .to.emit(tendering, "AllowlistRootSet")
+        .withArgs(0, root);
+
+      await expect(
+        as(carol).qualifyWithProof(0, [aliceLeaf]),
+      ).to.be.revertedWith("Invalid proof");
+      await expect(
+        as(alice).qualifyWithProof(0, [aliceLeaf]),
+      ).to.be.revertedWith("Invalid proof");
+      await expect(as(alice).qualifyWithProof(0, [bobLeaf]))
+        .to.emit(tendering, "AllowlistUpdated")
+        .withArgs(0, alice.address, true);
+      await placeBid(alice, 0, 10);
+      await as(bob).qualifyWithProof(0, [aliceLeaf]);
+      await placeBid(bob, 0, 20);
+      await expect(placeBid(carol, 0, 30)).to.be.revertedWith(
+        "Not prequalified",
+      );
+    });
+  });
+
+  describe("listing", function () {
+    it("pages through all projects and each creator's own", async function () {
+      const { alice, bob } = signers;
+      await createProject();
+      await createProject({ from: alice, draft: true });
+      await createProject();
+      await createProject({ from: alice, restricted: true });
+
+      const ids = (page: { id: bigint }[]) => page.map((s) => Number(s.id));
+      let [page, total] = await tendering.getProjects(1, 2);
+      expect(total).to.eq(4);
+      expect(ids(page)).to.deep.eq([1, 2]);
+      expect(page[0].creator).to.eq(alice.address);
+      expect(page[0].title).to.eq("Road repair");
+      expect(page[0].status).to.eq(Status.Draft);
+      expect(page[0].bondAmount).to.eq(BOND);
+      expect(page[1].status).to.eq(Status.Open);
+      [page, total] = await tendering.getProjects(3, 10);
+      expect([ids(page), total]).to.deep.eq([[3], 4n]);
+      [page, total] = await tendering.getProjects(4, 10);
+      expect([ids(page), total]).to.deep.eq([[], 4n]);
+
+      [page, total] = await tendering.getProjectsByCreator(
+        alice.address,
+        0,
+        10,
+      );
+      expect([ids(page), total]).to.deep.eq([[1, 3], 2n]);
+      expect(page[1].restricted).to.eq(true);
+      [page, total] = await tendering.getProjectsByCreator(
+        signers.creator.address,
+        1,
+        1,
+      );
+      expect([ids(page), total]).to.deep.eq([[2], 2n]);
+      [page, total] = await tendering.getProjectsByCreator(bob.address, 0, 10);
+      expect([ids(page), total]).to.deep.eq([[], 0n]);
+
+      // an open project is reported as Closed once its deadline has passed
+      await time.increase(1000);
+      [page] = await tendering.getProjects(2, 1);
+      expect(page[0].status).to.eq(Status.Closed);
+    });
+
+    it("clamps a page to MAX_PAGE_SIZE", async function () {
+      const maxPage = Number(await tendering.MAX_PAGE_SIZE());
+      for (let i = 0; i <= maxPage; i++) {
+        await createProject();
+      }
+      const [page, total] = await tendering.getProjects(0, maxPage * 10);
+      expect(total).to.eq(maxPage + 1);
+      expect(page.length).to.eq(maxPage);
+      const [rest] = await tendering.getProjects(maxPage, maxPage * 10);
+      expect(rest.length).to.eq(1);
+      const [own] = await tendering.getProjectsByCreator(
+        signers.creator.address,
+        0,
+        maxPage * 10,
+      );
+      expect(own.length).to.eq(maxPage);
+    });
+  });
+});